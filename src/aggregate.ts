@@ -0,0 +1,262 @@
+import { ValidationError } from "./errors.js";
+import { match, project, compileSort, compareValues, SortSpec } from "./query.js";
+import { getPath, setPath } from "./utils.js";
+
+// "$field" references a (dotted) path of the current document; anything else is a literal
+export type Expression = any;
+
+export interface Accumulator {
+  $sum?: Expression;
+  $avg?: Expression;
+  $min?: Expression;
+  $max?: Expression;
+  $push?: Expression;
+}
+
+export interface Lookup {
+  from: string;
+  localField: string;
+  foreignField: string;
+  as: string;
+}
+
+export type PipelineStage =
+  | { $match: any }
+  | { $group: { _id: Expression; [field: string]: Accumulator | Expression } }
+  | { $sort: SortSpec }
+  | { $limit: number }
+  | { $skip: number }
+  | { $project: { [path: string]: 0 | 1 | boolean | string } }
+  | { $unwind: string | { path: string; preserveNullAndEmptyArrays?: boolean } }
+  | { $lookup: Lookup }
+  | { $count: string };
+
+export interface PipelineContext {
+  // Returns the documents of `from` whose `foreignField` equals one of `values`
+  lookup: (from: string, foreignField: string, values: any[]) => Promise<any[]>;
+}
+
+type Stream = AsyncIterable<any>;
+
+const evaluate = (doc: any, expression: Expression): any => {
+  if (typeof expression === "string" && expression.startsWith("$")) {
+    return getPath(doc, expression.slice(1));
+  }
+  if (typeof expression === "object" && expression !== null && !Array.isArray(expression)) {
+    const result: any = {};
+    for (const key in expression) result[key] = evaluate(doc, expression[key]);
+    return result;
+  }
+  return expression;
+};
+
+async function* matchStage(source: Stream, filter: any): Stream {
+  const matcher = match(filter);
+  for await (const doc of source) {
+    if (matcher(doc, 0)) yield doc;
+  }
+}
+
+async function* projectStage(source: Stream, spec: { [path: string]: any }): Stream {
+  const projection: { [path: string]: any } = {};
+  const computed: [string, string][] = [];
+  for (const path in spec) {
+    if (typeof spec[path] === "string") computed.push([path, spec[path]]);
+    else projection[path] = spec[path];
+  }
+  for await (const doc of source) {
+    const result = Object.keys(projection).length > 0 || computed.length === 0
+      ? project(doc, projection)
+      : { _id: doc._id };
+    for (const [path, expression] of computed) {
+      setPath(result, path, evaluate(doc, expression));
+    }
+    yield result;
+  }
+}
+
+async function* groupStage(source: Stream, spec: { [field: string]: any }): Stream {
+  const { _id: keyExpression, ...accumulators } = spec;
+  const groups = new Map<string, { _id: any; state: { [field: string]: any } }>();
+
+  for (const field in accumulators) {
+    const operators = Object.keys(accumulators[field] || {});
+    if (operators.length !== 1 || !["$sum", "$avg", "$min", "$max", "$push"].includes(operators[0])) {
+      throw new ValidationError(`AGGREGATE ERROR: ${field} needs exactly one of $sum, $avg, $min, $max, $push`);
+    }
+  }
+
+  for await (const doc of source) {
+    const key = evaluate(doc, keyExpression ?? null);
+    const hash = JSON.stringify(key ?? null);
+    let group = groups.get(hash);
+    if (!group) {
+      group = { _id: key ?? null, state: {} };
+      groups.set(hash, group);
+    }
+
+    for (const field in accumulators) {
+      const [operator] = Object.keys(accumulators[field]);
+      const value = evaluate(doc, accumulators[field][operator]);
+      const state = group.state;
+      switch (operator) {
+        case "$sum":
+          state[field] = (state[field] || 0) + (typeof value === "number" ? value : 0);
+          break;
+        case "$avg":
+          if (!state[field]) state[field] = { sum: 0, count: 0 };
+          if (typeof value === "number") {
+            state[field].sum += value;
+            state[field].count++;
+          }
+          break;
+        case "$min":
+          if (value !== undefined && value !== null &&
+              (state[field] === undefined || compareValues(value, state[field]) < 0)) state[field] = value;
+          break;
+        case "$max":
+          if (value !== undefined && value !== null &&
+              (state[field] === undefined || compareValues(value, state[field]) > 0)) state[field] = value;
+          break;
+        case "$push":
+          if (!state[field]) state[field] = [];
+          state[field].push(value);
+          break;
+      }
+    }
+  }
+
+  for (const group of groups.values()) {
+    const result: any = { _id: group._id };
+    for (const field in accumulators) {
+      const [operator] = Object.keys(accumulators[field]);
+      const state = group.state[field];
+      switch (operator) {
+        case "$sum":
+          result[field] = state || 0;
+          break;
+        case "$avg":
+          result[field] = state && state.count > 0 ? state.sum / state.count : null;
+          break;
+        case "$push":
+          result[field] = state || [];
+          break;
+        default:
+          result[field] = state ?? null;
+      }
+    }
+    yield result;
+  }
+}
+
+async function* sortStage(source: Stream, spec: SortSpec): Stream {
+  const comparator = compileSort(spec);
+  const buffered: any[] = [];
+  for await (const doc of source) buffered.push(doc);
+  yield* buffered.sort(comparator);
+}
+
+async function* limitStage(source: Stream, limit: number): Stream {
+  if (limit <= 0) return;
+  let seen = 0;
+  for await (const doc of source) {
+    yield doc;
+    // Returning closes the upstream generators, so no further partitions load
+    if (++seen >= limit) return;
+  }
+}
+
+async function* skipStage(source: Stream, skip: number): Stream {
+  let seen = 0;
+  for await (const doc of source) {
+    if (seen++ >= skip) yield doc;
+  }
+}
+
+async function* unwindStage(source: Stream, spec: string | { path: string; preserveNullAndEmptyArrays?: boolean }): Stream {
+  const { path, preserveNullAndEmptyArrays = false } = typeof spec === "string" ? { path: spec } : spec;
+  if (typeof path !== "string" || !path.startsWith("$")) {
+    throw new ValidationError("AGGREGATE ERROR: $unwind path must start with $");
+  }
+  const field = path.slice(1);
+
+  for await (const doc of source) {
+    const value = getPath(doc, field);
+    if (Array.isArray(value) && value.length > 0) {
+      for (const element of value) {
+        const copy = structuredClone(doc);
+        setPath(copy, field, element);
+        yield copy;
+      }
+    } else if (value !== undefined && value !== null && !Array.isArray(value)) {
+      yield doc;
+    } else if (preserveNullAndEmptyArrays) {
+      yield doc;
+    }
+  }
+}
+
+async function* lookupStage(source: Stream, spec: Lookup, context: PipelineContext): Stream {
+  const { from, localField, foreignField, as } = spec;
+  if (!from || !localField || !foreignField || !as) {
+    throw new ValidationError("AGGREGATE ERROR: $lookup needs from, localField, foreignField and as");
+  }
+  for await (const doc of source) {
+    const value = getPath(doc, localField);
+    const values = Array.isArray(value) ? value : [value ?? null];
+    const result = { ...doc };
+    setPath(result, as, await context.lookup(from, foreignField, values));
+    yield result;
+  }
+}
+
+async function* countStage(source: Stream, field: string): Stream {
+  let count = 0;
+  for await (const _ of source) count++;
+  yield { [field]: count };
+}
+
+const applyStage = (source: Stream, stage: PipelineStage, context: PipelineContext): Stream => {
+  const keys = Object.keys(stage);
+  if (keys.length !== 1) {
+    throw new ValidationError("AGGREGATE ERROR: each stage must have exactly one operator");
+  }
+  const spec = (stage as any)[keys[0]];
+  switch (keys[0]) {
+    case "$match":
+      return matchStage(source, spec);
+    case "$project":
+      return projectStage(source, spec);
+    case "$group":
+      return groupStage(source, spec);
+    case "$sort":
+      return sortStage(source, spec);
+    case "$limit":
+      return limitStage(source, spec);
+    case "$skip":
+      return skipStage(source, spec);
+    case "$unwind":
+      return unwindStage(source, spec);
+    case "$lookup":
+      return lookupStage(source, spec, context);
+    case "$count":
+      return countStage(source, spec);
+    default:
+      throw new ValidationError(`AGGREGATE ERROR: unknown stage ${keys[0]}`);
+  }
+};
+
+// Chains the stages as async generators so documents flow through one at a time;
+// only $group, $sort and $count hold documents back.
+export const runPipeline = async (source: Stream, pipeline: PipelineStage[], context: PipelineContext) => {
+  if (!Array.isArray(pipeline)) {
+    throw new ValidationError("AGGREGATE ERROR: pipeline must be an array of stages");
+  }
+  let stream = source;
+  for (const stage of pipeline) {
+    stream = applyStage(stream, stage, context);
+  }
+  const results: any[] = [];
+  for await (const doc of stream) results.push(doc);
+  return results;
+};
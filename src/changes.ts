@@ -0,0 +1,107 @@
+import { EventEmitter } from "events";
+import { matchesFilter } from "./query.js";
+
+export type ChangeType = "insert" | "update" | "delete" | "drop";
+
+export interface ChangeEvent {
+  // Increases by one for every committed change; pass it back as `resumeAfter`
+  position: number;
+  type: ChangeType;
+  collection: string;
+  _id?: number;
+  // The document before an update or delete, and after an insert or update
+  before?: any;
+  after?: any;
+}
+
+export interface WatchOptions {
+  // Replay the retained changes committed after this position before live ones
+  resumeAfter?: number;
+}
+
+// Committed changes for one collection (or all) as "change" events, events
+// named after their type, and an async iterable. A filter is matched against
+// the document after the change, or before it for deletes; drops always pass.
+export class ChangeStream extends EventEmitter implements AsyncIterable<ChangeEvent> {
+  readonly collection: string | undefined;
+  readonly filter: any;
+  #onClose: () => void;
+  #closed = false;
+  // Live events wait here until the backlog has been delivered
+  #held: ChangeEvent[] | undefined = [];
+  #last: number;
+  // Events are only queued once an iterator exists, so listener-only streams hold none
+  #iterating = false;
+  #queue: ChangeEvent[] = [];
+  #waiting: { resolve: (result: IteratorResult<ChangeEvent>) => void; reject: (error: any) => void }[] = [];
+  #error: any;
+
+  constructor(collection: string | undefined, filter: any, resumeAfter: number, onClose: () => void) {
+    super();
+    this.collection = collection;
+    this.filter = filter;
+    this.#last = resumeAfter;
+    this.#onClose = onClose;
+  }
+
+  #matches(event: ChangeEvent) {
+    if (this.collection !== undefined && event.collection !== this.collection) return false;
+    if (!this.filter || event.type === "drop") return true;
+    return matchesFilter(event.type === "delete" ? event.before : event.after, this.filter);
+  }
+
+  #deliver(event: ChangeEvent) {
+    if (this.#closed || event.position <= this.#last) return;
+    this.#last = event.position;
+    if (!this.#matches(event)) return;
+    this.emit("change", event);
+    this.emit(event.type, event);
+    if (!this.#iterating) return;
+    if (this.#waiting.length > 0) this.#waiting.shift()!.resolve({ value: event, done: false });
+    else this.#queue.push(event);
+  }
+
+  // Called by the database for every committed change
+  push(event: ChangeEvent) {
+    if (this.#held) this.#held.push(event);
+    else this.#deliver(event);
+  }
+
+  // Delivers the retained changes, then the live ones that arrived meanwhile
+  start(backlog: ChangeEvent[]) {
+    const held = this.#held || [];
+    this.#held = undefined;
+    for (const event of [...backlog, ...held]) this.#deliver(event);
+  }
+
+  fail(error: any) {
+    this.#error = error;
+    if (this.listenerCount("error") > 0) this.emit("error", error);
+    for (const waiter of this.#waiting.splice(0)) waiter.reject(error);
+    this.close();
+  }
+
+  close() {
+    if (this.#closed) return;
+    this.#closed = true;
+    this.#onClose();
+    for (const waiter of this.#waiting.splice(0)) waiter.resolve({ value: undefined, done: true });
+    this.emit("close");
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ChangeEvent> {
+    this.#iterating = true;
+    return {
+      next: () => {
+        if (this.#queue.length > 0) return Promise.resolve({ value: this.#queue.shift()!, done: false });
+        if (this.#error) return Promise.reject(this.#error);
+        if (this.#closed) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve, reject) => this.#waiting.push({ resolve, reject }));
+      },
+      return: async () => {
+        this.close();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+}
@@ -27,9 +27,13 @@ export class DocumentNotFoundError extends SencilloDBError {
 }
 
 export class ValidationError extends SencilloDBError {
-  constructor(message: string) {
+  // Every field that failed validation, when the error comes from a schema
+  errors: { path: string; reason: string }[];
+
+  constructor(message: string, errors: { path: string; reason: string }[] = []) {
     super(message);
     this.name = "ValidationError";
+    this.errors = errors;
   }
 }
 
@@ -39,3 +43,17 @@ export class DatabaseNotLoadedError extends SencilloDBError {
     this.name = "DatabaseNotLoadedError";
   }
 }
+
+export class UniqueConstraintError extends SencilloDBError {
+  field: string;
+  value: any;
+  conflictingId: number;
+
+  constructor(field: string, value: any, conflictingId: number) {
+    super(`Value ${JSON.stringify(value)} for unique index '${field}' already used by document with _id '${conflictingId}'`);
+    this.name = "UniqueConstraintError";
+    this.field = field;
+    this.value = value;
+    this.conflictingId = conflictingId;
+  }
+}
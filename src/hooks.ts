@@ -0,0 +1,71 @@
+import { ValidationError } from "./errors.js";
+import type { Instructions } from "./index.js";
+
+export type HookOperation = "create" | "update" | "destroy" | "find" | "findMany";
+
+const OPERATIONS: HookOperation[] = ["create", "update", "destroy", "find", "findMany"];
+
+export interface HookContext {
+  collection: string;
+  operation: HookOperation;
+  instructions: Instructions;
+}
+
+// Returns replacement instructions, or nothing to keep them; throwing aborts the transaction
+export type BeforeHook = (instructions: Instructions, context: HookContext) => Instructions | void | Promise<Instructions | void>;
+
+// Called with the operation's result once the transaction has committed
+export type AfterHook = (result: any, context: HookContext) => void | Promise<void>;
+
+// Hooks registered for "*" run for every collection, before the collection's own
+export class HookRegistry {
+  #before = new Map<string, BeforeHook[]>();
+  #after = new Map<string, AfterHook[]>();
+
+  #add<T>(hooks: Map<string, T[]>, collection: string, operation: HookOperation, hook: T) {
+    if (!OPERATIONS.includes(operation)) {
+      throw new ValidationError(`HOOK ERROR: unknown operation ${operation}, expected one of ${OPERATIONS.join(", ")}`);
+    }
+    if (typeof hook !== "function") throw new ValidationError("HOOK ERROR: hook must be a function");
+    const key = `${collection}:${operation}`;
+    if (!hooks.has(key)) hooks.set(key, []);
+    hooks.get(key)!.push(hook);
+    // Unregisters the hook
+    return () => {
+      const list = hooks.get(key)!;
+      if (list.includes(hook)) list.splice(list.indexOf(hook), 1);
+    };
+  }
+
+  #find<T>(hooks: Map<string, T[]>, collection: string, operation: HookOperation): T[] {
+    return [...(hooks.get(`*:${operation}`) || []), ...(collection === "*" ? [] : hooks.get(`${collection}:${operation}`) || [])];
+  }
+
+  before(collection: string, operation: HookOperation, hook: BeforeHook) {
+    return this.#add(this.#before, collection, operation, hook);
+  }
+
+  after(collection: string, operation: HookOperation, hook: AfterHook) {
+    return this.#add(this.#after, collection, operation, hook);
+  }
+
+  has(collection: string, operation: HookOperation) {
+    return this.#find(this.#before, collection, operation).length > 0 || this.#find(this.#after, collection, operation).length > 0;
+  }
+
+  async runBefore(operation: HookOperation, instructions: Instructions): Promise<Instructions> {
+    const { collection = "default" } = instructions;
+    for (const hook of this.#find(this.#before, collection, operation)) {
+      instructions = (await hook(instructions, { collection, operation, instructions })) || instructions;
+    }
+    return instructions;
+  }
+
+  // The after hooks bound to a result, to be run once it is committed
+  bindAfter(operation: HookOperation, instructions: Instructions, result: any): (() => Promise<void>)[] {
+    const { collection = "default" } = instructions;
+    return this.#find(this.#after, collection, operation).map((hook) => async () => {
+      await hook(result, { collection, operation, instructions });
+    });
+  }
+}
@@ -1,11 +1,37 @@
 import { existsSync, writeFileSync, mkdirSync, createReadStream, createWriteStream } from "fs";
-import { readFile, rename, appendFile, unlink, mkdir, readdir } from "fs/promises";
+import { readFile, writeFile, rename, appendFile, unlink, mkdir, readdir } from "fs/promises";
 import { join } from "path";
+import { EventEmitter } from "events";
 // @ts-ignore
 import bfj from "bfj";
 import zlib from "zlib";
-import { Mutex } from "./utils.js";
-import { match } from "./query.js";
+import { Mutex, getPath, isEqual } from "./utils.js";
+import { match, project, compileSort, comparePositions, compareValues, sortKey, SortSpec, QueryContext } from "./query.js";
+import {
+  SecondaryIndex,
+  IndexType,
+  IndexOptions,
+  IndexDefinition,
+  indexedValue,
+  indexFields,
+  indexName,
+  isOrdered,
+  lookupEqual,
+  indexType,
+  createIndex,
+  addToIndex,
+  removeFromIndex,
+} from "./indexes.js";
+import { TextIndex, TextIndexOptions, TextSearch, createTextIndex, addToTextIndex, removeFromTextIndex, searchText } from "./text.js";
+import { isUpdateDocument, applyUpdate, equalityFields } from "./update.js";
+import { planQuery, PlanInput, QueryPlan } from "./planner.js";
+import { Schema, CollectionName, Transaction } from "./types.js";
+import { HookRegistry, HookOperation, BeforeHook, AfterHook } from "./hooks.js";
+import { ChangeStream, ChangeEvent, ChangeType, WatchOptions } from "./changes.js";
+import { ObjectSchema, parseDocument, parseUpdate } from "./schema.js";
+import { JsonSchema, checkJsonSchema, validateJsonSchema } from "./jsonschema.js";
+import { encodeCursor, decodeCursor } from "./pagination.js";
+import { runPipeline, PipelineStage } from "./aggregate.js";
 import {
   SencilloDBError,
   CollectionNotFoundError,
@@ -13,6 +39,7 @@ import {
   DocumentNotFoundError,
   ValidationError,
   DatabaseNotLoadedError,
+  UniqueConstraintError,
 } from "./errors.js";
 
 export interface SencilloConfig {
@@ -24,11 +51,39 @@ export interface SencilloConfig {
   compression?: boolean;
   sharding?: boolean;
   maxCacheSize?: number;
+  // Committed changes kept for `watch` consumers resuming from a position (default 0)
+  changeHistory?: number;
+  // Also keep the change history on disk, so positions survive restarts
+  persistChanges?: boolean;
+  // Stamp creation and modification times on the documents of every collection
+  timestamps?: boolean | TimestampOptions;
+  // Settings for single collections, taking precedence over the global ones
+  collections?: { [collection: string]: CollectionOptions };
+  // Source of the current time (default () => new Date())
+  clock?: () => Date;
+  // Milliseconds between sweeps removing expired documents, 0 to only sweep on demand (default 60000)
+  sweepInterval?: number;
+}
+
+export interface TimestampOptions {
+  // Field names, or false to leave the field out (default "createdAt" and "updatedAt")
+  createdAt?: string | false;
+  updatedAt?: string | false;
+}
+
+export interface CollectionOptions {
+  timestamps?: boolean | TimestampOptions;
+  // Have `destroy` mark documents as deleted (in "deletedAt" by default) instead of removing them
+  softDelete?: boolean | { field?: string };
+  // Milliseconds after their timestamps' createdAt that documents expire
+  expireAfter?: number;
+  // Field holding the time each document expires, as an ISO string or epoch milliseconds
+  expireAtField?: string;
 }
 
-export interface Populate {
+export interface Populate<C extends string = string> {
   field: string;
-  collection: string;
+  collection: C;
   targetField?: string;
 }
 
@@ -39,32 +94,110 @@ export interface Instructions {
   _id?: number;
   callback?: (item: any) => boolean;
   filter?: any;
-  sort?: (a: any, b: any) => number;
-  populate?: Populate[];
+  sort?: ((a: any, b: any) => number) | SortSpec;
+  populate?: readonly Populate[];
+  projection?: { [path: string]: 0 | 1 | boolean };
+  limit?: number;
+  skip?: number;
+  cursor?: string;
+  explain?: boolean;
+  upsert?: boolean;
+  // Also see documents a soft-deleting collection has marked as deleted
+  withDeleted?: boolean;
+}
+
+export type { SortSpec, SortDirection } from "./query.js";
+
+export type { PipelineStage } from "./aggregate.js";
+
+export type { IndexType, IndexOptions, IndexDefinition } from "./indexes.js";
+
+export type { QueryPlan, PlanStrategy } from "./planner.js";
+
+export type { TextSearch } from "./text.js";
+
+export type { UpdateOperators } from "./update.js";
+
+export type { FieldType, FieldSchema, FieldSpec, ObjectSchema, SchemaViolation } from "./schema.js";
+
+export { validateSchema } from "./schema.js";
+
+export type { JsonSchema } from "./jsonschema.js";
+
+export type { HookOperation, HookContext, BeforeHook, AfterHook } from "./hooks.js";
+
+export type { ChangeEvent, ChangeType, WatchOptions } from "./changes.js";
+
+export { ChangeStream } from "./changes.js";
+
+export { validateJsonSchema } from "./jsonschema.js";
+
+export type { Schema, CollectionName, WithId, Filter, Condition, Operators, Populated, Query, Transaction } from "./types.js";
+
+export interface IndexInstructions extends TextIndexOptions, IndexOptions {
+  collection: string;
+  // Several fields build a compound index named by the fields joined with commas
+  field: string | string[];
+  type?: IndexType | "text";
 }
 
-export interface Transaction {
-  create: (instructions: Instructions) => Promise<any>;
-  update: (instructions: Instructions) => Promise<any>;
-  destroy: (instructions: Instructions) => Promise<any>;
-  find: (instructions: Instructions) => Promise<any>;
-  findMany: (instructions: Instructions) => Promise<any[]>;
-  createMany: (instructions: Instructions) => Promise<any[]>;
-  dropCollection: (instructions: Instructions) => Promise<void>;
-  dropIndex: (instructions: Instructions) => Promise<void>;
-  rewriteCollection: (instructions: Instructions) => Promise<void>;
-  ensureIndex: (instructions: { collection: string; field: string }) => Promise<void>;
+
+export interface DistinctInstructions extends Instructions {
+  field: string;
+}
+
+export interface AggregateInstructions {
+  collection?: string;
+  index?: string;
+  pipeline: PipelineStage[];
+  withDeleted?: boolean;
+}
+
+export interface Explain {
+  collection: string;
+  plan: Omit<QueryPlan, "ids" | "order" | "exact">;
+  documentsScanned: number;
+  documentsReturned: number;
+  shardsLoaded: number;
+  executionTimeMs: number;
+}
+
+interface QueryStats {
+  scanned: number;
+  shardLoads: number;
+  startedAt: number;
+  plan?: QueryPlan;
+}
+
+export interface UpsertResult {
+  document: any;
+  upserted: boolean;
+}
+
+export interface BulkResult {
+  count: number;
+  ids: number[];
+}
+
+export interface Page<T = any> {
+  results: T[];
+  cursor: string | null;
 }
 
 export interface CollectionStats {
   inserted: number;
+  // Stored documents, including soft-deleted ones
   total: number;
+  deleted?: number;
 }
 
 export interface Collection {
-  [index: string]: any[] | CollectionStats | { [field: string]: { [value: string]: number[] } } | { [id: number]: string } | undefined;
+  [index: string]: any[] | CollectionStats | { [field: string]: SecondaryIndex } | { [field: string]: TextIndex } | { [name: string]: IndexDefinition } | JsonSchema | { [id: number]: string } | undefined;
   __stats: CollectionStats;
-  __secondary_indexes?: { [field: string]: { [value: string]: number[] } };
+  __secondary_indexes?: { [field: string]: SecondaryIndex };
+  __text_indexes?: { [field: string]: TextIndex };
+  __indexes?: { [name: string]: IndexDefinition };
+  __schema?: JsonSchema;
   __id_map?: { [id: number]: string };
 }
 
@@ -72,7 +205,10 @@ interface Database {
   [key: string]: Collection;
 }
 
-export class SencilloDB {
+// Collection keys holding bookkeeping rather than a partition of documents
+const META_KEYS = new Set(["__stats", "__secondary_indexes", "__text_indexes", "__indexes", "__schema", "__id_map"]);
+
+export class SencilloDB<S extends Schema = Schema> extends EventEmitter {
   #file: string | undefined;
   #folder: string | undefined;
   #aofFile: string;
@@ -80,15 +216,37 @@ export class SencilloDB {
   #loadHook: (() => Promise<string>) | undefined;
   #saveHook: ((json: string) => Promise<void>) | undefined;
   #mutex = new Mutex();
+  #hooks = new HookRegistry();
+  #changeHistory: number;
+  #persistChanges: boolean;
+  #changesFile: string;
+  #changes: ChangeEvent[] = [];
+  #changeLogLines = 0;
+  #position = 0;
+  #changesLoaded: Promise<void> | undefined;
+  #watchers = new Set<ChangeStream>();
+  // Changes made by the running transaction, published when it commits
+  #pendingChanges: Omit<ChangeEvent, "position">[] | undefined;
   #aof: boolean;
   #compression: boolean;
   #sharding: boolean;
   #maxCacheSize: number;
   #lru: Map<string, number> = new Map(); // Key -> Timestamp (or just insertion order)
-  #pendingOperations: { op: string; instructions: any }[] = [];
+  #shardLoads = 0; // Shard files read from disk, reported by explain
+  #pendingOperations: { op: string; instructions: any; at?: string }[] = [];
+  #timestamps: boolean | TimestampOptions;
+  #collections: { [collection: string]: CollectionOptions };
+  #clock: () => Date;
+  // Time of the running write, logged with it so AOF replay stamps the same values
+  #operationTime: string | undefined;
+  // Set while rewriteCollection inserts documents that already carry their timestamps
+  #keepTimestamps = false;
+  #sweeper: NodeJS.Timeout | undefined;
+  #sweeping: Promise<void> | undefined;
   #dirtyCollections: Set<string> = new Set();
 
   constructor(config: SencilloConfig = { file: "./sencillo.json" }) {
+    super();
     if (!config.file && !config.folder && !config.loadHook && !config.saveHook) {
       // Allow if hooks are provided, otherwise file or folder is required
     }
@@ -100,6 +258,7 @@ export class SencilloDB {
         }
         this.#file = undefined;
         this.#aofFile = join(this.#folder, "log.aof");
+        this.#changesFile = join(this.#folder, "changes.log");
     } else {
         const filePath = config.file || "./sencillo.json";
         if (!config.loadHook && !existsSync(filePath)) {
@@ -111,6 +270,7 @@ export class SencilloDB {
         }
         this.#file = filePath;
         this.#aofFile = `${filePath}.aof`;
+        this.#changesFile = `${filePath}.changes`;
     }
 
     this.#loadHook = config.loadHook;
@@ -119,10 +279,32 @@ export class SencilloDB {
     this.#compression = config.compression || false;
     this.#sharding = config.sharding || false;
     this.#maxCacheSize = config.maxCacheSize || 0; // 0 means no limit
+    this.#changeHistory = config.changeHistory || 0;
+    this.#persistChanges = config.persistChanges || false;
+    this.#timestamps = config.timestamps || false;
+    this.#collections = config.collections || {};
+    this.#clock = config.clock || (() => new Date());
     
     if (this.#sharding && !this.#folder) {
         throw new Error("Sharding requires folder mode to be enabled.");
     }
+
+    for (const collection of this.#ttlCollections()) {
+        if (this.#collections[collection].expireAfter !== undefined && !this.#timestampFields(collection)?.createdAt) {
+            throw new Error(`expireAfter on ${collection} requires timestamps with a createdAt field.`);
+        }
+    }
+    const { sweepInterval = 60000 } = config;
+    if (this.#ttlCollections().length > 0 && sweepInterval > 0) {
+        this.#sweeper = setInterval(() => {
+            // Ticks arriving while a sweep waits on the mutex are skipped
+            this.#sweeping ??= this.sweep()
+                .then(() => undefined, (error) => console.error("TTL sweep failed:", error))
+                .finally(() => (this.#sweeping = undefined));
+        }, sweepInterval);
+        // A pending sweep should not keep the process alive
+        this.#sweeper.unref();
+    }
   }
 
   async #loadDB() {
@@ -150,11 +332,14 @@ export class SencilloDB {
           const lines = aofContent.split("\n").filter(line => line.trim() !== "");
           for (const line of lines) {
               try {
-                  const { op, instructions } = JSON.parse(line);
+                  const { op, instructions, at } = JSON.parse(line);
+                  this.#operationTime = at;
                   // @ts-ignore
                   await this[op](instructions);
               } catch (e) {
                   console.error("Failed to replay AOF line:", line, e);
+              } finally {
+                  this.#operationTime = undefined;
               }
           }
           this.#pendingOperations = []; // Clear operations generated by replay
@@ -214,6 +399,7 @@ export class SencilloDB {
         : join(colDir, `shard_${index}.json`);
 
       if (existsSync(shardFile)) {
+           this.#shardLoads++;
            if (this.#compression) {
                const stream = createReadStream(shardFile).pipe(zlib.createGunzip());
                this.#db[collection][index] = await bfj.parse(stream);
@@ -224,6 +410,55 @@ export class SencilloDB {
       }
   }
 
+  // Partition names of a collection, including shards not loaded yet
+  async #partitionNames(collection: string) {
+      const names = new Set(Object.keys(this.#db![collection]).filter((key) => !META_KEYS.has(key)));
+      if (this.#sharding && this.#folder) {
+          const colDir = join(this.#folder, collection);
+          if (existsSync(colDir)) {
+              for (const f of await readdir(colDir)) {
+                  // shard_INDEX.json(.gz)
+                  const found = /^shard_(.+)\.json(\.gz)?$/.exec(f);
+                  if (found) names.add(found[1]);
+              }
+          }
+      }
+      return [...names];
+  }
+
+  async #loadShards(collection: string) {
+      if (!this.#sharding) return;
+      for (const idx of await this.#partitionNames(collection)) {
+          await this.#getShard(collection, idx);
+      }
+  }
+
+  async *#matching(docs: AsyncIterable<any>, matcher: (item: any, index: number) => boolean) {
+      for await (const doc of docs) {
+          if (matcher(doc, 0)) yield doc;
+      }
+  }
+
+  // Yields the documents of a collection one partition at a time. In sharded
+  // mode each shard is loaded only when reached, and the collection itself is
+  // touched first so the LRU evicts already visited shards rather than it.
+  async *#scan(collection: string, partition?: string) {
+      const names = partition ? [partition] : await this.#partitionNames(collection);
+      for (const idx of names) {
+          if (this.#sharding) {
+              await this.#touch(collection);
+              await this.#getShard(collection, idx);
+          }
+          const docs = this.#db?.[collection]?.[idx] as any[] | undefined;
+          if (!docs) {
+              if (partition) throw new IndexNotFoundError(partition);
+              continue;
+          }
+          // Copied so writes made while iterating do not shift the remaining documents
+          yield* docs.slice();
+      }
+  }
+
   async #touch(key: string) {
       if (this.#maxCacheSize <= 0) return;
 
@@ -318,12 +553,11 @@ export class SencilloDB {
               if (!existsSync(colDir)) mkdirSync(colDir, { recursive: true });
 
               // Save Meta
-              // Create a meta object with only stats, id_map, secondary_indexes
-              const meta: any = {
-                  __stats: this.#db[name].__stats,
-                  __id_map: this.#db[name].__id_map,
-                  __secondary_indexes: this.#db[name].__secondary_indexes
-              };
+              // Create a meta object with only the bookkeeping keys
+              const meta: any = {};
+              for (const key of META_KEYS) {
+                  meta[key] = this.#db[name][key];
+              }
               
               const metaFile = join(colDir, "meta.json");
               await bfj.write(metaFile, meta);
@@ -331,7 +565,7 @@ export class SencilloDB {
               // Save Shards
               // Iterate keys that are NOT meta keys
               for (const key in this.#db[name]) {
-                  if (key === "__stats" || key === "__id_map" || key === "__secondary_indexes") continue;
+                  if (META_KEYS.has(key)) continue;
                   
                   // It's a shard (index bucket)
                   const shardData = this.#db[name][key];
@@ -407,7 +641,7 @@ export class SencilloDB {
     }
   }
 
-  async #appendAOF(ops: { op: string; instructions: any }[]) {
+  async #appendAOF(ops: { op: string; instructions: any; at?: string }[]) {
       if (ops.length === 0) return;
       const lines = ops.map(o => JSON.stringify(o)).join("\n") + "\n";
       await appendFile(this.#aofFile, lines);
@@ -433,8 +667,116 @@ export class SencilloDB {
       });
   }
 
-  async transaction(callback: (tx: Transaction) => Promise<any>) {
-    return this.#mutex.runExclusive(async () => {
+  // Removes expired documents from every TTL collection in one transaction,
+  // emitting "expire" with the number removed when there were any
+  async sweep() {
+    const collections: { [collection: string]: number } = {};
+    await this.transaction<any>(async (tx) => {
+        for (const collection of this.#ttlCollections()) {
+            await this.#getCollection(collection);
+            if (!this.#db![collection]) continue;
+            const { count } = await tx.purgeExpired({ collection });
+            if (count > 0) collections[collection] = count;
+        }
+    });
+    const count = Object.values(collections).reduce((sum, n) => sum + n, 0);
+    if (count > 0) this.emit("expire", { count, collections });
+    return { count, collections };
+  }
+
+  // Stops the periodic sweep and ends every change stream
+  close() {
+    clearInterval(this.#sweeper);
+    this.#sweeper = undefined;
+    for (const stream of this.#watchers) stream.close();
+  }
+
+  // Streams changes committed from now on, or from just after `resumeAfter`
+  watch(collection?: CollectionName<S>, filter?: any, options: WatchOptions = {}): ChangeStream {
+    const { resumeAfter } = options;
+    const stream = new ChangeStream(collection, filter, resumeAfter ?? -Infinity, () => this.#watchers.delete(stream));
+    this.#watchers.add(stream);
+    if (resumeAfter === undefined) {
+        stream.start([]);
+        return stream;
+    }
+    this.#loadChanges().then(() => {
+        // Positions advance with every committed change, so a gap before the
+        // oldest retained one, or a position not reached yet (the history of
+        // an earlier run that was not persisted), means changes were missed
+        const oldest = this.#changes[0]?.position ?? this.#position + 1;
+        if (resumeAfter > this.#position || (resumeAfter < this.#position && oldest > resumeAfter + 1)) {
+            throw new ValidationError(`WATCH ERROR: changes after position ${resumeAfter} are no longer retained`);
+        }
+        stream.start(this.#changes.filter((event) => event.position > resumeAfter));
+    }).catch((error) => stream.fail(error));
+    return stream;
+  }
+
+  // Reads the persisted change history once, so positions carry on after a restart
+  #loadChanges() {
+    this.#changesLoaded ??= (async () => {
+        if (!this.#persistChanges || !existsSync(this.#changesFile)) return;
+        const lines = (await readFile(this.#changesFile, "utf-8")).split("\n").filter((line) => line.trim() !== "");
+        const events: ChangeEvent[] = lines.map((line) => JSON.parse(line));
+        this.#changes = this.#changeHistory > 0 ? events.slice(-this.#changeHistory) : [];
+        this.#changeLogLines = events.length;
+        this.#position = events.at(-1)?.position ?? 0;
+    })();
+    return this.#changesLoaded;
+  }
+
+  #recordChange(type: ChangeType, collection: string, before?: any, after?: any) {
+    if (!this.#pendingChanges) return;
+    const change: Omit<ChangeEvent, "position"> = { type, collection };
+    if (after || before) change._id = (after || before)._id;
+    // Nobody reads the documents, but the change still takes up a position
+    if (this.#watchers.size === 0 && this.#changeHistory === 0) {
+        this.#pendingChanges.push(change);
+        return;
+    }
+    // Copies, since the stored documents may change before watchers read them
+    if (before) change.before = structuredClone(before);
+    if (after) change.after = structuredClone(after);
+    this.#pendingChanges.push(change);
+  }
+
+  async #publishChanges(changes: Omit<ChangeEvent, "position">[]) {
+    const events = changes.map((change) => ({ position: ++this.#position, ...change }));
+    if (this.#changeHistory > 0) {
+        this.#changes.push(...events);
+        this.#changes.splice(0, Math.max(0, this.#changes.length - this.#changeHistory));
+    }
+    if (this.#persistChanges) {
+        await appendFile(this.#changesFile, events.map((event) => JSON.stringify(event) + "\n").join(""));
+        this.#changeLogLines += events.length;
+        // Rewrite the log once it holds twice what is retained, keeping the
+        // last event so the position survives
+        if (this.#changeLogLines > 2 * Math.max(this.#changeHistory, 1)) {
+            const kept = this.#changes.length > 0 ? this.#changes : events.slice(-1);
+            const tempFile = `${this.#changesFile}.tmp`;
+            await writeFile(tempFile, kept.map((event) => JSON.stringify(event) + "\n").join(""));
+            await rename(tempFile, this.#changesFile);
+            this.#changeLogLines = kept.length;
+        }
+    }
+    for (const watcher of this.#watchers) {
+        for (const event of events) watcher.push(event);
+    }
+  }
+
+  // Registers a hook run before `operation` on `collection` ("*" for all)
+  before(collection: CollectionName<S> | "*", operation: HookOperation, hook: BeforeHook) {
+    return this.#hooks.before(collection, operation, hook);
+  }
+
+  // Registers a hook run after `operation` on `collection` ("*" for all) commits
+  after(collection: CollectionName<S> | "*", operation: HookOperation, hook: AfterHook) {
+    return this.#hooks.after(collection, operation, hook);
+  }
+
+  async transaction<R>(callback: (tx: Transaction<S>) => Promise<R>): Promise<R> {
+    const [payload, afterHooks] = await this.#mutex.runExclusive(async () => {
         const self = this;
 
         if (!this.#db) {
@@ -443,27 +785,111 @@ export class SencilloDB {
         }
         
         this.#pendingOperations = []; // Reset pending ops
+        await this.#loadChanges();
+        this.#pendingChanges = [];
+        // After hooks of this transaction, run once it commits
+        const afterHooks: (() => Promise<void>)[] = [];
+
+        // Before hooks run ahead of the AOF log, so replay sees their result
+        // without running them again
+        const hooked = (operation: HookOperation, fn: Function) => {
+            return async (instructions: any) => {
+                instructions = await this.#hooks.runBefore(operation, instructions);
+                const result = await fn(instructions);
+                afterHooks.push(...this.#hooks.bindAfter(operation, instructions, result));
+                return result;
+            };
+        };
 
-        const wrap = (method: string, fn: Function) => {
+        const wrap = (method: string, fn: Function, stamped = false) => {
             return async (instructions: any) => {
+                const at = this.#startOperation(stamped);
                 if (this.#aof) {
-                    this.#pendingOperations.push({ op: method, instructions });
+                    this.#pendingOperations.push({ op: method, instructions, ...(at && { at }) });
+                }
+                try {
+                    return await fn(instructions);
+                } finally {
+                    this.#operationTime = undefined;
+                }
+            };
+        };
+
+        // Bulk writes are logged by the ids they touched, since callbacks
+        // cannot be written to the AOF and replay must hit the same documents.
+        // Those ids already passed the soft-delete filter, so replay skips it
+        const wrapBulk = (method: string, fn: (instructions: Instructions) => Promise<BulkResult>) => {
+            return async (instructions: Instructions) => {
+                const at = this.#startOperation();
+                let result: BulkResult;
+                try {
+                    result = await fn(instructions);
+                } finally {
+                    this.#operationTime = undefined;
                 }
-                return await fn(instructions);
+                if (this.#aof && result.count > 0) {
+                    const { collection, data } = instructions;
+                    this.#pendingOperations.push({
+                        op: method,
+                        instructions: { collection, data, filter: { _id: { $in: result.ids } }, withDeleted: true },
+                        ...(at && { at }),
+                    });
+                }
+                return result;
             };
         };
 
-        const tx: Transaction = {
-        create: wrap("create", this.create.bind(self)),
-        update: wrap("update", this.update.bind(self)),
-        destroy: wrap("destroy", this.destroy.bind(self)),
-        find: this.find.bind(self),
-        findMany: this.findMany.bind(self),
-        createMany: wrap("createMany", this.createMany.bind(self)),
+        // Bulk writes run the before hooks of their single-document operation, so
+        // hooks can rewrite or reject them too. After hooks expect a document, so
+        // they do not run for a count of changed documents
+        const hookedBulk = (operation: HookOperation, fn: (instructions: Instructions) => Promise<BulkResult>) => {
+            return async (instructions: Instructions) => fn(await this.#hooks.runBefore(operation, instructions));
+        };
+
+        const create = hooked("create", wrap("create", this.create.bind(self)));
+        const createMany = wrap("createMany", this.createMany.bind(self));
+        const update = wrap("update", this.update.bind(self));
+
+        const tx: Transaction<S> = {
+        create,
+        // An upsert is logged as the update or create it turned into, and an
+        // insert runs the create hooks like any other new document
+        update: hooked("update", async (instructions: Instructions) => {
+            if (!instructions.upsert) return await update(instructions);
+            return await this.#upsert(instructions, { update, create });
+        }),
+        destroy: hooked("destroy", wrap("destroy", this.destroy.bind(self))),
+        updateMany: hookedBulk("update", wrapBulk("updateMany", this.updateMany.bind(self))),
+        destroyMany: hookedBulk("destroy", wrapBulk("destroyMany", this.destroyMany.bind(self))),
+        restore: wrap("restore", this.restore.bind(self)),
+        purge: hookedBulk("destroy", wrapBulk("purge", this.purge.bind(self))),
+        purgeExpired: wrapBulk("purgeExpired", this.purgeExpired.bind(self)),
+        find: hooked("find", this.find.bind(self)),
+        findMany: hooked("findMany", this.findMany.bind(self)),
+        findPage: this.findPage.bind(self),
+        iterate: this.iterate.bind(self),
+        // With create hooks, each document goes through them as its own create
+        createMany: async (instructions: Instructions) => {
+            const { collection = "default", data } = instructions;
+            if (!Array.isArray(data) || !this.#hooks.has(collection, "create")) return await createMany(instructions);
+            const results = [];
+            for (const item of data) results.push(await create({ ...instructions, data: item }));
+            return results;
+        },
         dropCollection: wrap("dropCollection", this.dropCollection.bind(self)),
         dropIndex: wrap("dropIndex", this.dropIndex.bind(self)),
         rewriteCollection: wrap("rewriteCollection", this.rewriteCollection.bind(self)),
-        ensureIndex: wrap("ensureIndex", this.ensureIndex.bind(self)),
+        // Index definitions record when they were created
+        ensureIndex: wrap("ensureIndex", this.ensureIndex.bind(self), true),
+        setSchema: wrap("setSchema", this.setSchema.bind(self)),
+        getSchema: this.getSchema.bind(self),
+        listIndexes: this.listIndexes.bind(self),
+        dropSecondaryIndex: wrap("dropSecondaryIndex", this.dropSecondaryIndex.bind(self)),
+        rebuildIndex: wrap("rebuildIndex", this.rebuildIndex.bind(self), true),
+        aggregate: this.aggregate.bind(self),
+        count: this.count.bind(self),
+        distinct: this.distinct.bind(self),
+        exists: this.exists.bind(self),
         };
         try {
         const payload = await callback(tx);
@@ -476,9 +902,14 @@ export class SencilloDB {
         
         this.#pendingOperations = []; // Clear after write
 
-        return payload;
+        const changes = this.#pendingChanges;
+        this.#pendingChanges = undefined;
+        if (changes.length > 0) await this.#publishChanges(changes);
+
+        return [payload, afterHooks] as const;
         } catch (error) {
         console.log(error);
+        this.#pendingChanges = undefined;
         if (!this.#folder) await this.#loadDB(); // Reload to revert state (only for single file)
         
         if (this.#folder && this.#db) {
@@ -490,9 +921,19 @@ export class SencilloDB {
         throw error; // Re-throw so caller knows it failed
         }
     });
+
+    // The mutex is free again, so after hooks may start transactions of their own
+    for (const run of afterHooks) {
+        try {
+            await run();
+        } catch (error) {
+            console.error("After hook failed:", error);
+        }
+    }
+    return payload;
   }
 
-  async #populate(item: any, rules: Populate[]) {
+  async #populate(item: any, rules: readonly Populate[]) {
     if (!item) return item;
     const populatedItem = { ...item };
     
@@ -503,8 +944,10 @@ export class SencilloDB {
         if (value) {
              await this.#getCollection(collection);
              if (this.#db && this.#db[collection]) {
-                 // Find the related document
+                 // Find the related document; soft-deleted and expired ones are hidden as in $lookup
                  let relatedDoc = null;
+                 const { filter, callback } = this.#visible<Instructions>({ collection });
+                 const visible = match(filter || {}, callback);
                  
                  // Optimization: If targetField is _id and value is number, use ID Map
                  if (targetField === "_id" && typeof value === "number") {
@@ -513,7 +956,7 @@ export class SencilloDB {
                          if (this.#sharding) await this.#getShard(collection, idx);
                          
                          if (this.#db[collection][idx]) {
-                            relatedDoc = (this.#db[collection][idx] as any[]).find((d: any) => d._id === value);
+                            relatedDoc = (this.#db[collection][idx] as any[]).find((d: any) => d._id === value && visible(d, 0));
                          }
                      }
                  } else {
@@ -521,27 +964,14 @@ export class SencilloDB {
                      // In sharding mode, we might need to load ALL shards if we can't use ID map?
                      // For now, let's assume populate works best with _id or secondary indexes.
                      // If we have to scan, we should load all shards.
-                     if (this.#sharding) {
-                         const colDir = join(this.#folder!, collection);
-                         if (existsSync(colDir)) {
-                             const files = await readdir(colDir);
-                             for (const f of files) {
-                                 if (f.startsWith("shard_")) {
-                                     // shard_INDEX.json(.gz)
-                                     let idx = f.replace("shard_", "").replace(".json", "");
-                                     if (this.#compression) idx = idx.replace(".gz", "");
-                                     await this.#getShard(collection, idx);
-                                 }
-                             }
-                         }
-                     }
+                     await this.#loadShards(collection);
 
                      const coll = this.#db[collection];
                      const keys = Object.keys(coll);
                      for (const key of keys) {
-                         if (key === "__stats" || key === "__secondary_indexes" || key === "__id_map") continue;
+                         if (META_KEYS.has(key)) continue;
                          if (Array.isArray(coll[key])) {
-                             const found = (coll[key] as any[]).find(i => i[targetField] === value);
+                             const found = (coll[key] as any[]).find(i => i[targetField] === value && visible(i, 0));
                              if (found) {
                                  relatedDoc = found;
                                  break;
@@ -559,6 +989,179 @@ export class SencilloDB {
     return populatedItem;
   }
 
+  #indexDocument(collection: string, item: any) {
+    const { __secondary_indexes: indexes = {}, __indexes: options = {}, __text_indexes: textIndexes = {} } = this.#db![collection];
+    for (const name in indexes) {
+        const key = indexedValue(name, options[name], item);
+        if (key) addToIndex(indexes[name], key.value, item._id);
+    }
+    for (const field in textIndexes) {
+        addToTextIndex(textIndexes[field], getPath(item, field), item._id);
+    }
+  }
+
+  #unindexDocument(collection: string, item: any) {
+    const { __secondary_indexes: indexes = {}, __indexes: options = {}, __text_indexes: textIndexes = {} } = this.#db![collection];
+    for (const name in indexes) {
+        const key = indexedValue(name, options[name], item);
+        if (key) removeFromIndex(indexes[name], key.value, item._id);
+    }
+    for (const field in textIndexes) {
+        removeFromTextIndex(textIndexes[field], getPath(item, field), item._id);
+    }
+  }
+
+  #reindexDocument(collection: string, oldItem: any, newItem: any) {
+    const { __secondary_indexes: indexes = {}, __indexes: options = {}, __text_indexes: textIndexes = {} } = this.#db![collection];
+    for (const name in indexes) {
+        const oldKey = indexedValue(name, options[name], oldItem);
+        const newKey = indexedValue(name, options[name], newItem);
+        if (oldKey && newKey && isEqual(oldKey.value, newKey.value)) continue;
+        if (oldKey) removeFromIndex(indexes[name], oldKey.value, oldItem._id);
+        if (newKey) addToIndex(indexes[name], newKey.value, newItem._id);
+    }
+    for (const field in textIndexes) {
+        const oldValue = getPath(oldItem, field);
+        const newValue = getPath(newItem, field);
+        if (isEqual(oldValue, newValue)) continue;
+        removeFromTextIndex(textIndexes[field], oldValue, oldItem._id);
+        addToTextIndex(textIndexes[field], newValue, newItem._id);
+    }
+  }
+
+  // The timestamp field names of a collection, or undefined when it has none
+  #timestampFields(collection: string) {
+    const setting = this.#collections[collection]?.timestamps ?? this.#timestamps;
+    if (!setting) return undefined;
+    const { createdAt = "createdAt", updatedAt = "updatedAt" } = setting === true ? {} : setting;
+    return { createdAt: createdAt || undefined, updatedAt: updatedAt || undefined };
+  }
+
+  #now() {
+    return this.#operationTime ?? this.#clock().toISOString();
+  }
+
+  // Fixes the time of a write about to run, when any collection stamps documents
+  // or the write stamps something itself
+  #startOperation(stamped = false) {
+    const timed = stamped || !!this.#timestamps || Object.values(this.#collections).some((options) =>
+        options.timestamps || options.softDelete || options.expireAfter !== undefined || options.expireAtField !== undefined);
+    this.#operationTime = timed ? this.#clock().toISOString() : undefined;
+    return this.#operationTime;
+  }
+
+  // Keeps the creation time of an updated document and refreshes its modification time
+  #stampUpdate(collection: string, oldItem: any, newItem: any) {
+    const fields = this.#timestampFields(collection);
+    if (!fields) return;
+    if (fields.createdAt && oldItem[fields.createdAt] !== undefined) newItem[fields.createdAt] = oldItem[fields.createdAt];
+    if (fields.updatedAt) newItem[fields.updatedAt] = this.#now();
+  }
+
+  // The field soft-deleted documents of a collection are marked with, or undefined when it deletes for good
+  #softDeleteField(collection: string) {
+    const setting = this.#collections[collection]?.softDelete;
+    if (!setting) return undefined;
+    return (setting === true ? undefined : setting.field) || "deletedAt";
+  }
+
+  #ttlCollections() {
+    return Object.keys(this.#collections).filter((collection) => {
+      const { expireAfter, expireAtField } = this.#collections[collection];
+      return expireAfter !== undefined || expireAtField !== undefined;
+    });
+  }
+
+  // Tells whether a document of a TTL collection has expired by now
+  #expired(collection: string): ((doc: any) => boolean) | undefined {
+    const { expireAfter, expireAtField } = this.#collections[collection] || {};
+    if (expireAfter === undefined && expireAtField === undefined) return undefined;
+    const now = Date.parse(this.#now());
+    const createdAt = this.#timestampFields(collection)?.createdAt;
+    return (doc: any) => {
+      const created = createdAt === undefined ? undefined : doc[createdAt];
+      if (expireAfter !== undefined && created != null && new Date(created).getTime() + expireAfter <= now) return true;
+      const expiresAt = expireAtField === undefined ? undefined : getPath(doc, expireAtField);
+      return expiresAt != null && new Date(expiresAt).getTime() <= now;
+    };
+  }
+
+  // Narrows a read or bulk write to documents that have not expired and,
+  // unless it asks for them, are not soft-deleted
+  #visible<T extends { collection?: string; filter?: any; callback?: (item: any) => boolean; withDeleted?: boolean }>(instructions: T): T {
+    const collection = instructions.collection || "default";
+    const field = this.#softDeleteField(collection);
+    const expired = this.#expired(collection);
+    let { filter, callback } = instructions;
+    if (field && !instructions.withDeleted) {
+      const live = { [field]: { $exists: false } };
+      filter = !filter ? live : field in filter ? { $and: [filter, live] } : { ...filter, ...live };
+    }
+    if (expired) {
+      const given = callback;
+      callback = given ? (item) => !expired(item) && given(item) : (item) => !expired(item);
+    }
+    return filter === instructions.filter && callback === instructions.callback ? instructions : { ...instructions, filter, callback };
+  }
+
+  #markDeleted(collection: string, item: any, field: string) {
+    const marked = { ...item, [field]: this.#now() };
+    this.#reindexDocument(collection, item, marked);
+    this.#recordChange("delete", collection, item);
+    const stats = this.#db![collection].__stats;
+    stats.deleted = (stats.deleted || 0) + 1;
+    return marked;
+  }
+
+  // Throws when the collection has a JSON Schema the document does not satisfy
+  #checkSchema(collection: string, doc: any) {
+    const schema = this.#db![collection].__schema;
+    if (schema === undefined) return;
+    // `_id` is assigned by the database, so schemas never have to declare it
+    const { _id, ...document } = doc;
+    const errors = validateJsonSchema(schema, document);
+    if (errors.length > 0) {
+        const details = errors.map(({ path, reason }) => `${path || "document"} ${reason}`).join("; ");
+        throw new ValidationError(`SCHEMA VALIDATION ERROR: ${collection}${_id === undefined ? "" : ` document ${_id}`}: ${details}`, errors);
+    }
+  }
+
+  // Throws when another document already holds one of `doc`'s values in a unique index.
+  // Expired documents are invisible until swept, so they never conflict
+  async #checkUnique(collection: string, doc: any) {
+    const { __secondary_indexes: indexes = {}, __indexes: options = {} } = this.#db![collection];
+    const expired = this.#expired(collection);
+    if (expired?.(doc)) return;
+    let load: ((_id: number) => Promise<any>) | undefined;
+    for (const name in indexes) {
+        if (!options[name]?.unique) continue;
+        const key = indexedValue(name, options[name], doc);
+        if (!key) continue;
+        for (const v of Array.isArray(key.value) ? key.value : [key.value]) {
+            // Documents without a value never conflict
+            if (v === undefined || v === null) continue;
+            for (const id of lookupEqual(indexes[name], v)) {
+                if (id === doc._id) continue;
+                // Hash buckets are keyed by string form, so confirm the actual value
+                load ??= this.#documentLoader(collection);
+                const stored = await load(id);
+                if (expired?.(stored)) continue;
+                const other = indexedValue(name, options[name], stored);
+                const values = !other ? [] : Array.isArray(other.value) ? other.value : [other.value];
+                if (values.some((o) => isEqual(o, v))) throw new UniqueConstraintError(name, v, id);
+            }
+        }
+    }
+  }
+
+  // Applies population and projection to a document on its way out of find/findMany
+  async #present(doc: any, instructions: Instructions) {
+    const { populate, projection } = instructions;
+    if (!doc) return doc;
+    const result = populate ? await this.#populate(doc, populate) : doc;
+    return projection ? project(result, projection) : result;
+  }
+
   async create(instructions: Instructions) {
     let {
       collection = "default",
@@ -579,6 +1182,14 @@ export class SencilloDB {
       this.#db[collection] = { __stats: { inserted: 0, total: 0 }, __id_map: {} };
     }
 
+    const fields = this.#timestampFields(collection);
+    if (fields && !this.#keepTimestamps) {
+      const now = this.#now();
+      data = { ...data };
+      if (fields.createdAt) data[fields.createdAt] = now;
+      if (fields.updatedAt) data[fields.updatedAt] = now;
+    }
+
     // Resolve index to string
     let idx = "default";
     if (typeof index === "function") {
@@ -589,6 +1200,8 @@ export class SencilloDB {
     // If index is object, we default to "default" for create, or could throw error. 
     // Assuming "default" fallback is safe or user error.
     const _id = this.#db[collection].__stats.inserted + 1;
+    this.#checkSchema(collection, data);
+    await this.#checkUnique(collection, { ...data, _id });
     this.#db[collection].__stats.inserted++;
     this.#db[collection].__stats.total++;
 
@@ -602,20 +1215,10 @@ export class SencilloDB {
 
     const newItem = { ...data, _id };
     (this.#db[collection][idx] as any[]).push(newItem);
+    this.#recordChange("insert", collection, undefined, newItem);
     
     // Maintain secondary indexes
-    if (this.#db[collection].__secondary_indexes) {
-        for (const field in this.#db[collection].__secondary_indexes) {
-            const value = newItem[field];
-            if (value !== undefined) {
-                const strValue = String(value);
-                if (!this.#db[collection].__secondary_indexes[field][strValue]) {
-                    this.#db[collection].__secondary_indexes[field][strValue] = [];
-                }
-                this.#db[collection].__secondary_indexes[field][strValue].push(_id);
-            }
-        }
-    }
+    this.#indexDocument(collection, newItem);
 
     // Maintain ID Map
     if (!this.#db[collection].__id_map) this.#db[collection].__id_map = {};
@@ -628,6 +1231,8 @@ export class SencilloDB {
     const { collection = "default", data, _id, index } = instructions;
     if (!this.#db) throw new DatabaseNotLoadedError();
     
+    if (instructions.upsert) return await this.#upsert(instructions);
+
     if (_id === undefined) throw new ValidationError("UPDATE ERROR: no _id given");
 
     await this.#getCollection(collection);
@@ -643,7 +1248,7 @@ export class SencilloDB {
     } else {
         // Fallback to search
         const indexes = Object.keys(this.#db[collection]).filter(
-            (i) => i !== "__stats" && i !== "__secondary_indexes" && i !== "__id_map"
+            (i) => !META_KEYS.has(i)
         );
         let found = false;
         for (const i of indexes) {
@@ -663,7 +1268,12 @@ export class SencilloDB {
     if (itemIndex === -1) throw new DocumentNotFoundError(_id);
 
     const oldItem = (this.#db[collection][idx] as any[])[itemIndex];
-    const newItem = { ...data, _id };
+    const softDelete = this.#softDeleteField(collection);
+    if (softDelete && oldItem[softDelete] !== undefined && !instructions.withDeleted) throw new DocumentNotFoundError(_id);
+    const newItem = isUpdateDocument(data) ? { ...applyUpdate(oldItem, data), _id } : { ...data, _id };
+    this.#stampUpdate(collection, oldItem, newItem);
+    this.#checkSchema(collection, newItem);
+    await this.#checkUnique(collection, newItem);
 
     // Handle Index Change
     if (index) {
@@ -697,34 +1307,49 @@ export class SencilloDB {
     }
 
     // Update Secondary Indexes
-    if (this.#db[collection].__secondary_indexes) {
-        for (const field in this.#db[collection].__secondary_indexes) {
-            const oldValue = oldItem[field];
-            const newValue = newItem[field];
-            
-            if (oldValue !== newValue) {
-                // Remove old
-                if (oldValue !== undefined) {
-                    const strOld = String(oldValue);
-                    const arr = this.#db[collection].__secondary_indexes[field][strOld];
-                    if (arr) {
-                        const i = arr.indexOf(_id);
-                        if (i !== -1) arr.splice(i, 1);
-                    }
-                }
-                // Add new
-                if (newValue !== undefined) {
-                    const strNew = String(newValue);
-                    if (!this.#db[collection].__secondary_indexes[field][strNew]) {
-                         this.#db[collection].__secondary_indexes[field][strNew] = [];
-                    }
-                    this.#db[collection].__secondary_indexes[field][strNew].push(_id);
-                }
-            }
+    this.#reindexDocument(collection, oldItem, newItem);
+    this.#recordChange("update", collection, oldItem, newItem);
+
+    return newItem;
+  }
+
+  // Updates the document matching `_id` or `filter`, or creates it when there is none.
+  // Transactions pass their own update and create, so the insert runs the create hooks
+  async #upsert(
+    instructions: Instructions,
+    write: { update: (instructions: Instructions) => Promise<any>; create: (instructions: Instructions) => Promise<any> } = this,
+  ): Promise<UpsertResult> {
+    const { collection = "default", data, _id, filter, index } = instructions;
+    if (_id === undefined && filter === undefined) {
+        throw new ValidationError("UPDATE ERROR: upsert needs an _id or a filter");
+    }
+
+    await this.#getCollection(collection);
+
+    let target: number | undefined;
+    if (this.#db![collection]) {
+        if (_id !== undefined) {
+            target = this.#db![collection].__id_map?.[_id] !== undefined ? _id : undefined;
+        } else {
+            // A string index names the destination partition, so only { current } narrows the search
+            const current = typeof index === "object" ? index.current : undefined;
+            const [found] = await this.#query(this.#visible({ collection, filter, index: current, limit: 1 }));
+            target = found?._id;
         }
     }
 
-    return newItem;
+    if (target !== undefined) {
+        const document = await write.update({ ...instructions, _id: target, upsert: false });
+        return { document, upserted: false };
+    }
+
+    // New documents start from the filter's equality conditions, then take the update
+    const document = await write.create({
+        collection,
+        index: typeof index === "object" ? index.new : index,
+        data: isUpdateDocument(data) ? applyUpdate(equalityFields(filter), data) : data,
+    });
+    return { document, upserted: true };
   }
 
   async destroy(instructions: Instructions) {
@@ -746,7 +1371,7 @@ export class SencilloDB {
     } else {
         // Fallback to search
         const indexes = Object.keys(this.#db[collection]).filter(
-            (i) => i !== "__stats" && i !== "__secondary_indexes" && i !== "__id_map"
+            (i) => !META_KEYS.has(i)
         );
         let found = false;
         for (const i of indexes) {
@@ -765,7 +1390,16 @@ export class SencilloDB {
 
     if (itemIndex === -1) throw new DocumentNotFoundError(_id);
 
+    const softDelete = this.#softDeleteField(collection);
+    if (softDelete) {
+        const docs = this.#db[collection][idx] as any[];
+        if (docs[itemIndex][softDelete] !== undefined) throw new DocumentNotFoundError(_id);
+        docs[itemIndex] = this.#markDeleted(collection, docs[itemIndex], softDelete);
+        return docs[itemIndex];
+    }
+
     const deletedItem = (this.#db[collection][idx] as any[]).splice(itemIndex, 1)[0];
+    this.#recordChange("delete", collection, deletedItem);
     this.#db[collection].__stats.total--;
     
     // Remove from ID Map
@@ -774,206 +1408,657 @@ export class SencilloDB {
     }
 
     // Remove from Secondary Indexes
-    if (this.#db[collection].__secondary_indexes) {
-        for (const field in this.#db[collection].__secondary_indexes) {
-            const value = deletedItem[field];
-            if (value !== undefined) {
-                const strValue = String(value);
-                const arr = this.#db[collection].__secondary_indexes[field][strValue];
-                if (arr) {
-                    const i = arr.indexOf(_id);
-                    if (i !== -1) arr.splice(i, 1);
-                }
-            }
+    this.#unindexDocument(collection, deletedItem);
+
+    return deletedItem;
+  }
+
+  // Partitions holding documents that may match, with the candidate ids in
+  // each when the planner could narrow them down
+  async #affectedPartitions(collection: string, instructions: Instructions, context: QueryContext) {
+    const { callback, index, filter } = instructions;
+    const partition = typeof index === "string" ? index : undefined;
+    const plan = this.#plan(collection, { filter, hasCallback: !!callback, partition, textScores: context.textScores, wanted: Infinity });
+    const affected = new Map<string, Set<number> | undefined>();
+    if (plan.ids) {
+        const idMap = this.#db![collection].__id_map || {};
+        for (const id of plan.ids) {
+            const idx = idMap[id];
+            if (!affected.has(idx)) affected.set(idx, new Set());
+            affected.get(idx)!.add(id);
+        }
+    } else {
+        for (const idx of partition !== undefined ? [partition] : await this.#partitionNames(collection)) {
+            affected.set(idx, undefined);
         }
     }
+    return affected;
+  }
 
-    return deletedItem;
+  // Loads a partition for a bulk write; missing partitions are only an error when hinted
+  async #writablePartition(collection: string, idx: string, hinted: boolean) {
+    if (this.#sharding) {
+        await this.#touch(collection);
+        await this.#getShard(collection, idx);
+    }
+    const docs = this.#db![collection][idx] as any[] | undefined;
+    if (!docs && hinted) throw new IndexNotFoundError(idx);
+    return docs;
   }
 
-  async find(instructions: Instructions) {
-    const { collection = "default", callback, index, filter, populate } = instructions;
+  async updateMany(instructions: Instructions) {
+    instructions = this.#visible(instructions);
+    const { collection = "default", callback, index, filter, data } = instructions;
     if (!this.#db) throw new DatabaseNotLoadedError();
-    
+
+    if (!isUpdateDocument(data)) {
+        throw new ValidationError("UPDATE ERROR: updateMany expects update operators such as $set");
+    }
+    if (index !== undefined && typeof index !== "string") {
+        throw new ValidationError("UPDATE ERROR: updateMany takes a partition name as index");
+    }
+
     await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
 
     if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
 
-    // Optimized Secondary Index Lookup
-    if (filter && this.#db[collection].__secondary_indexes) {
-        for (const field in filter) {
-            const value = filter[field];
-            // Check if filter is a direct value or $eq
-            const isDirect = typeof value !== "object" || value === null;
-            const isEq = value && typeof value === "object" && "$eq" in value;
-            
-            if (isDirect || isEq) {
-                const targetValue = isDirect ? value : value.$eq;
-                const strValue = String(targetValue);
-                
-                if (this.#db[collection].__secondary_indexes[field] && 
-                    this.#db[collection].__secondary_indexes[field][strValue]) {
-                    
-                    const ids: number[] = this.#db[collection].__secondary_indexes[field][strValue];
-                    if (ids.length > 0) {
-                        const id = ids[0];
-                        // Use ID Map to find it fast
-                        if (this.#db[collection].__id_map && this.#db[collection].__id_map[id]) {
-                            const idx = this.#db[collection].__id_map[id];
-                            if (this.#sharding) await this.#getShard(collection, idx);
-
-                            if (this.#db[collection][idx]) {
-                                const doc = (this.#db[collection][idx] as any[]).find((d: any) => d._id === id);
-                                if (doc) {
-                                    // Matcher check to be sure (in case of collision or other filters)
-                                    const matcher = match(filter || {}, callback);
-                                    if (matcher(doc, 0)) {
-                                         if (populate) return await this.#populate(doc, populate);
-                                         return doc;
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
+    const context = this.#queryContext(collection, filter);
+    const matcher = match(filter || {}, callback, context);
+    const ids: number[] = [];
+    for (const [idx, candidates] of await this.#affectedPartitions(collection, instructions, context)) {
+        const docs = await this.#writablePartition(collection, idx, index !== undefined);
+        if (!docs) continue;
+        for (let i = 0; i < docs.length; i++) {
+            const oldItem = docs[i];
+            if (candidates && !candidates.has(oldItem._id)) continue;
+            if (!matcher(oldItem, i)) continue;
+            const newItem = { ...applyUpdate(oldItem, data), _id: oldItem._id };
+            this.#stampUpdate(collection, oldItem, newItem);
+            this.#checkSchema(collection, newItem);
+            await this.#checkUnique(collection, newItem);
+            docs[i] = newItem;
+            this.#reindexDocument(collection, oldItem, newItem);
+            this.#recordChange("update", collection, oldItem, newItem);
+            ids.push(oldItem._id);
         }
     }
 
-    const matcher = match(filter || {}, callback);
+    ids.sort((a, b) => a - b);
+    return { count: ids.length, ids };
+  }
+
+  async destroyMany(instructions: Instructions) {
+    const { collection = "default", index } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
 
-    if (index && typeof index === "string") {
-      if (this.#sharding) await this.#getShard(collection, index);
-      if (!this.#db[collection][index]) throw new IndexNotFoundError(index);
-      const found = (this.#db[collection][index] as any[]).find(matcher);
-      if (found && populate) return await this.#populate(found, populate);
-      return found;
+    if (index !== undefined && typeof index !== "string") {
+        throw new ValidationError("DESTROY ERROR: destroyMany takes a partition name as index");
     }
 
-    // Scan all
-    if (this.#sharding) {
-         const colDir = join(this.#folder!, collection);
-         if (existsSync(colDir)) {
-             const files = await readdir(colDir);
-             for (const f of files) {
-                 if (f.startsWith("shard_")) {
-                     let i = f.replace("shard_", "").replace(".json", "");
-                     if (this.#compression) i = i.replace(".gz", "");
-                     await this.#getShard(collection, i);
-                 }
-             }
-         }
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    return await this.#destroyMatching(collection, this.#visible(instructions), true);
+  }
+
+  // Permanently removes soft-deleted documents: the one with `_id`, those
+  // matching the filter or callback, or all of them
+  async purge(instructions: Instructions) {
+    const { collection = "default", index, filter, _id } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    const field = this.#softDeleteField(collection);
+    if (!field) throw new ValidationError(`PURGE ERROR: ${collection} does not soft-delete documents`);
+    if (index !== undefined && typeof index !== "string") {
+        throw new ValidationError("PURGE ERROR: purge takes a partition name as index");
     }
 
-    const indexes = Object.keys(this.#db[collection]).filter(
-      (i) => i !== "__stats" && i !== "__secondary_indexes" && i !== "__id_map"
-    );
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
 
-    for (const i of indexes) {
-      const found = (this.#db[collection][i] as any[]).find(matcher);
-      if (found) {
-          if (populate) return await this.#populate(found, populate);
-          return found;
-      }
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const deleted = { ...(_id !== undefined && { _id }), [field]: { $exists: true } };
+    return await this.#destroyMatching(collection, { ...instructions, filter: filter ? { $and: [filter, deleted] } : deleted }, false);
+  }
+
+  // Removes the expired documents of a TTL collection, optionally narrowed down like destroyMany
+  async purgeExpired(instructions: Instructions) {
+    const { collection = "default", index, callback } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    const expired = this.#expired(collection);
+    if (!expired) throw new ValidationError(`PURGE ERROR: ${collection} has no expireAfter or expireAtField`);
+    if (index !== undefined && typeof index !== "string") {
+        throw new ValidationError("PURGE ERROR: purgeExpired takes a partition name as index");
+    }
+
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    return await this.#destroyMatching(collection, {
+        ...instructions,
+        callback: callback ? (item) => expired(item) && callback(item) : expired,
+    }, false);
+  }
+
+  // Destroys the matching documents; soft-deleting collections only mark them when `soft` is set
+  async #destroyMatching(collection: string, instructions: Instructions, soft: boolean) {
+    const { callback, index, filter } = instructions;
+    const field = this.#softDeleteField(collection);
+    const stats = this.#db![collection].__stats;
+    const context = this.#queryContext(collection, filter);
+    const matcher = match(filter || {}, callback, context);
+    const ids: number[] = [];
+    for (const [idx, candidates] of await this.#affectedPartitions(collection, instructions, context)) {
+        const docs = await this.#writablePartition(collection, idx, index !== undefined);
+        if (!docs) continue;
+        const kept = [];
+        for (let i = 0; i < docs.length; i++) {
+            const item = docs[i];
+            if ((candidates && !candidates.has(item._id)) || !matcher(item, i)) {
+                kept.push(item);
+                continue;
+            }
+            const hidden = field !== undefined && item[field] !== undefined;
+            if (soft && field) {
+                kept.push(hidden ? item : this.#markDeleted(collection, item, field));
+                if (!hidden) ids.push(item._id);
+                continue;
+            }
+            ids.push(item._id);
+            this.#unindexDocument(collection, item);
+            // Watchers saw soft-deleted documents go when they were marked
+            if (hidden) stats.deleted!--;
+            else this.#recordChange("delete", collection, item);
+            delete this.#db![collection].__id_map?.[item._id];
+        }
+        this.#db![collection][idx] = kept;
     }
+
+    if (!(soft && field)) stats.total -= ids.length;
+    ids.sort((a, b) => a - b);
+    return { count: ids.length, ids };
+  }
+
+  // Brings back a soft-deleted document
+  async restore(instructions: Instructions) {
+    const { collection = "default", _id } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    if (_id === undefined) throw new ValidationError("RESTORE ERROR: no _id given");
+    const field = this.#softDeleteField(collection);
+    if (!field) throw new ValidationError(`RESTORE ERROR: ${collection} does not soft-delete documents`);
+
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const idx = this.#db[collection].__id_map?.[_id];
+    if (idx !== undefined && this.#sharding) await this.#getShard(collection, idx);
+    const docs = idx === undefined ? undefined : (this.#db[collection][idx] as any[] | undefined);
+    const itemIndex = docs ? docs.findIndex((item: any) => item._id === _id) : -1;
+    if (itemIndex === -1 || docs![itemIndex][field] === undefined) throw new DocumentNotFoundError(_id);
+
+    const oldItem = docs![itemIndex];
+    const { [field]: deletedAt, ...newItem } = oldItem;
+    this.#stampUpdate(collection, oldItem, newItem);
+    docs![itemIndex] = newItem;
+    this.#reindexDocument(collection, oldItem, newItem);
+    this.#recordChange("insert", collection, undefined, newItem);
+    this.#db[collection].__stats.deleted!--;
+    return newItem;
+  }
+
+  find(instructions: Instructions & { explain: true }): Promise<Explain>;
+  find(instructions: Instructions): Promise<any>;
+  async find(instructions: Instructions): Promise<any> {
+    const stats = instructions.explain ? this.#startExplain() : undefined;
+    const [found] = await this.#query(this.#visible({ ...instructions, limit: 1 }), stats);
+    if (stats) return this.#finishExplain(instructions, stats, found ? 1 : 0);
+    return await this.#present(found, instructions);
   }
 
-  async findMany(instructions: Instructions) {
-    const { collection = "default", callback, index, sort, filter, populate } = instructions;
+  // Matches, sorts and paginates raw documents for find/findMany/findPage,
+  // which hide soft-deleted and expired documents before calling it
+  async #query(instructions: Instructions, stats?: QueryStats, context: QueryContext = {}) {
+    const { collection = "default", callback, index, sort, filter, limit, skip = 0, cursor } = instructions;
     if (!this.#db) throw new DatabaseNotLoadedError();
     
     await this.#getCollection(collection);
 
     if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
 
-    const matcher = match(filter || {}, callback);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        throw new ValidationError("FIND ERROR: limit must be a non-negative integer");
+    }
+    if (!Number.isInteger(skip) || skip < 0) {
+        throw new ValidationError("FIND ERROR: skip must be a non-negative integer");
+    }
+    if (cursor && typeof sort === "function") {
+        throw new ValidationError("FIND ERROR: cursors cannot resume a comparator sort, use a sort spec");
+    }
+    Object.assign(context, this.#queryContext(collection, filter));
+    const comparator = typeof sort === "object" ? compileSort(sort, context) : sort;
+
+    // Resume after the last document of the previous page
+    const position = cursor ? decodeCursor(cursor) : undefined;
+    const baseMatcher = match(filter || {}, callback, context);
+    let after: number | undefined;
+    let matcher = baseMatcher;
+    if (position && typeof sort === "object") {
+        const compare = comparePositions(sort);
+        const resumeFrom = { key: position.key || [], id: position.id };
+        matcher = (item: any, i: number) =>
+            compare({ key: sortKey(item, sort, context), id: item._id }, resumeFrom) > 0 && baseMatcher(item, i);
+    } else if (position) {
+        after = position.id;
+        matcher = (item: any, i: number) => item._id > after! && baseMatcher(item, i);
+    }
+    if (stats) {
+        const counted = matcher;
+        matcher = (item: any, i: number) => {
+            stats.scanned++;
+            return counted(item, i);
+        };
+    }
+    const wanted = limit === undefined ? Infinity : skip + limit;
+    const partition = typeof index === "string" ? index : undefined;
+    const idMap = this.#db[collection].__id_map;
     let results: any[] = [];
 
-    // Optimized Secondary Index Lookup
-    let usedIndex = false;
-    if (filter && this.#db[collection].__secondary_indexes) {
-         for (const field in filter) {
-            const value = filter[field];
-            const isDirect = typeof value !== "object" || value === null;
-            const isEq = value && typeof value === "object" && "$eq" in value;
-            
-            if (isDirect || isEq) {
-                const targetValue = isDirect ? value : value.$eq;
-                const strValue = String(targetValue);
-                if (this.#db[collection].__secondary_indexes[field] && 
-                    this.#db[collection].__secondary_indexes[field][strValue]) {
-                    
-                    const ids: number[] = this.#db[collection].__secondary_indexes[field][strValue];
-                    // Retrieve all docs
-                    for (const id of ids) {
-                        if (this.#db[collection].__id_map && this.#db[collection].__id_map[id]) {
-                            const idx = this.#db[collection].__id_map[id];
-                            if (this.#sharding) await this.#getShard(collection, idx);
-
-                            if (this.#db[collection][idx]) {
-                                const doc = (this.#db[collection][idx] as any[]).find((d: any) => d._id === id);
-                                if (doc && matcher(doc, 0)) {
-                                    results.push(doc);
-                                }
-                            }
-                        }
-                    }
-                    usedIndex = true;
-                    break; // Only use one index
+    const plan = this.#plan(collection, { filter, hasCallback: !!callback, sort, partition, textScores: context.textScores, wanted });
+    if (stats) stats.plan = plan;
+
+    switch (plan.strategy) {
+        case "indexSort": {
+            // The index already yields documents in sort order
+            const allowed = plan.ids ? new Set(plan.ids) : undefined;
+            const seen = new Set<number>();
+            const load = this.#documentLoader(collection);
+            for (const id of plan.order!) {
+                // Documents with several array values appear once per value
+                if (seen.has(id)) continue;
+                seen.add(id);
+                if (allowed && !allowed.has(id)) continue;
+                if (partition !== undefined && idMap?.[id] !== partition) continue;
+                const doc = await load(id);
+                if (doc && matcher(doc, 0)) {
+                    results.push(doc);
+                    if (results.length >= wanted) break;
                 }
             }
-         }
-    }
-
-    if (!usedIndex) {
-        if (index && typeof index === "string") {
-        if (this.#sharding) await this.#getShard(collection, index);
-        if (!this.#db[collection][index]) throw new IndexNotFoundError(index);
-        results = (this.#db[collection][index] as any[]).filter(matcher);
-        } else {
-        
-        if (this.#sharding) {
-             const colDir = join(this.#folder!, collection);
-             if (existsSync(colDir)) {
-                 const files = await readdir(colDir);
-                 for (const f of files) {
-                     if (f.startsWith("shard_")) {
-                         let i = f.replace("shard_", "").replace(".json", "");
-                         if (this.#compression) i = i.replace(".gz", "");
-                         await this.#getShard(collection, i);
-                     }
-                 }
-             }
+            return results.slice(skip, wanted);
         }
-        const indexes = Object.keys(this.#db[collection]).filter(
-            (i) => i !== "__stats" && i !== "__secondary_indexes" && i !== "__id_map"
-        );
-
-        for (const i of indexes) {
-            results = [...results, ...(this.#db[collection][i] as any[]).filter(matcher)];
+        case "indexLookup": {
+            const load = this.#documentLoader(collection);
+            for (const id of plan.ids!) {
+                const doc = await load(id);
+                if (doc && matcher(doc, 0)) {
+                    results.push(doc);
+                }
+            }
+            break;
         }
+        case "partitionScan":
+            if (this.#sharding) await this.#getShard(collection, partition!);
+            if (!this.#db[collection][partition!]) throw new IndexNotFoundError(partition!);
+            results = (this.#db[collection][partition!] as any[]).filter(matcher);
+            break;
+        case "idOrderScan":
+            // Walk the ID map in _id order so only the shards holding
+            // the requested page are loaded
+            results = await this.#scanInIdOrder(collection, matcher, after, wanted);
+            break;
+        default: {
+            await this.#loadShards(collection);
+            const indexes = Object.keys(this.#db[collection]).filter(
+                (i) => !META_KEYS.has(i)
+            );
+
+            for (const i of indexes) {
+                results = [...results, ...(this.#db[collection][i] as any[]).filter(matcher)];
+            }
         }
     }
 
-    if (sort) {
-      results.sort(sort);
+    if (comparator) {
+      results.sort(comparator);
     } else {
       results.sort((a, b) => a._id - b._id);
     }
 
-    if (populate) {
+    return results.slice(skip, wanted);
+  }
+
+  // Relevance scores for a top-level $text search, computed once per query
+  #queryContext(collection: string, filter: any): QueryContext {
+    if (!filter || filter.$text === undefined) return {};
+    const { $search, $field } = filter.$text as TextSearch;
+    if (typeof $search !== "string") throw new ValidationError("QUERY ERROR: $text expects a $search string");
+
+    const textIndexes = this.#db![collection].__text_indexes || {};
+    const fields = $field === undefined ? Object.keys(textIndexes) : [$field];
+    if (fields.length === 0 || !fields.every((field) => textIndexes[field])) {
+        throw new ValidationError(`QUERY ERROR: $text requires a text index on ${$field ?? collection}`);
+    }
+
+    const textScores = new Map<number, number>();
+    for (const field of fields) searchText(textIndexes[field], $search, textScores);
+    return { textScores };
+  }
+
+  #plan(collection: string, input: Omit<PlanInput, "indexes" | "idMap">) {
+    return planQuery({
+        ...input,
+        indexes: this.#db![collection].__secondary_indexes,
+        options: this.#db![collection].__indexes,
+        idMap: this.#db![collection].__id_map,
+    });
+  }
+
+  #startExplain(): QueryStats {
+    return { scanned: 0, shardLoads: this.#shardLoads, startedAt: performance.now() };
+  }
+
+  #finishExplain(instructions: Instructions, stats: QueryStats, returned: number): Explain {
+    const { ids, order, exact, ...plan } = stats.plan!;
+    return {
+        collection: instructions.collection || "default",
+        plan,
+        documentsScanned: stats.scanned,
+        documentsReturned: returned,
+        shardsLoaded: this.#shardLoads - stats.shardLoads,
+        executionTimeMs: performance.now() - stats.startedAt,
+    };
+  }
+
+  async #scanInIdOrder(collection: string, matcher: (item: any, index: number) => boolean, after: number | undefined, wanted: number) {
+    const results: any[] = [];
+    const idMap = this.#db![collection].__id_map!;
+    const load = this.#documentLoader(collection);
+
+    // Integer keys are enumerated in ascending order
+    for (const key in idMap) {
+        const id = Number(key);
+        if (after !== undefined && id <= after) continue;
+
+        const doc = await load(id);
+        if (doc && matcher(doc, 0)) {
+            results.push(doc);
+            if (results.length >= wanted) break;
+        }
+    }
+    return results;
+  }
+
+  findMany(instructions: Instructions & { explain: true }): Promise<Explain>;
+  findMany(instructions: Instructions): Promise<any[]>;
+  async findMany(instructions: Instructions): Promise<any[] | Explain> {
+    const { populate, projection } = instructions;
+    const stats = instructions.explain ? this.#startExplain() : undefined;
+    const results = await this.#query(this.#visible(instructions), stats);
+    if (stats) return this.#finishExplain(instructions, stats, results.length);
+
+    if (populate || projection) {
         // Use Promise.all for parallel population or loop for sequential
         // Sequential is safer for now
-        const populatedResults = [];
+        const presentedResults = [];
         for (const doc of results) {
-            populatedResults.push(await this.#populate(doc, populate));
+            presentedResults.push(await this.#present(doc, instructions));
         }
-        return populatedResults;
+        return presentedResults;
     }
 
     return results;
   }
 
+  // Streams matching documents one partition at a time instead of collecting
+  // them, so in sharded mode the LRU can evict shards already visited
+  async *iterate(instructions: Instructions): AsyncGenerator<any> {
+    instructions = this.#visible(instructions);
+    const { collection = "default", callback, index, filter, sort, cursor } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    if (sort || cursor) {
+        throw new ValidationError("ITERATE ERROR: iterate yields documents in storage order, use findPage to sort or resume");
+    }
+
+    const matcher = match(filter || {}, callback, this.#queryContext(collection, filter));
+    const partition = typeof index === "string" ? index : undefined;
+    for await (const doc of this.#scan(collection, partition)) {
+        if (matcher(doc, 0)) yield await this.#present(doc, instructions);
+    }
+  }
+
+  #cursorPosition(doc: any, sort?: SortSpec, context?: QueryContext) {
+    return sort ? { id: doc._id, key: sortKey(doc, sort, context) } : { id: doc._id };
+  }
+
+  async findPage(instructions: Instructions) {
+    const { limit, sort } = instructions;
+    if (limit === undefined) throw new ValidationError("FIND ERROR: findPage requires a limit");
+    if (typeof sort === "function") {
+        throw new ValidationError("FIND ERROR: cursors cannot resume a comparator sort, use a sort spec");
+    }
+
+    // Fetch one extra document to learn whether another page exists
+    const context: QueryContext = {};
+    const documents = await this.#query(this.#visible({ ...instructions, limit: limit + 1 }), undefined, context);
+    const hasMore = documents.length > limit;
+    const page = documents.slice(0, limit);
+
+    const results = [];
+    for (const doc of page) {
+        results.push(await this.#present(doc, instructions));
+    }
+
+    return {
+        results,
+        cursor: hasMore ? encodeCursor(this.#cursorPosition(page[page.length - 1], sort, context)) : null,
+    };
+  }
+
+  // Fetches documents by _id through the ID map, indexing each partition by _id on first use
+  #documentLoader(collection: string) {
+    const partitions = new Map<string, Map<number, any>>();
+    return async (_id: number) => {
+        const idx = this.#db![collection].__id_map?.[_id];
+        if (idx === undefined) return;
+        if (!partitions.has(idx)) {
+            if (this.#sharding) {
+                await this.#touch(collection);
+                await this.#getShard(collection, idx);
+            }
+            const docs = (this.#db![collection][idx] as any[] | undefined) || [];
+            partitions.set(idx, new Map(docs.map((d: any) => [d._id, d])));
+        }
+        return partitions.get(idx)!.get(_id);
+    };
+  }
+
+  async count(instructions: Instructions) {
+    const { collection = "default", index } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const partition = typeof index === "string" ? index : undefined;
+    const idMap = this.#db[collection].__id_map;
+    const filterFields = instructions.filter ? Object.keys(instructions.filter).length : 0;
+    const hidesDeleted = !instructions.withDeleted && this.#softDeleteField(collection) !== undefined;
+
+    // Answer from the bookkeeping without touching documents when possible;
+    // expired documents are only known by looking at them
+    if (filterFields === 0 && !instructions.callback && !this.#expired(collection)) {
+        const { total, deleted = 0 } = this.#db[collection].__stats;
+        if (partition === undefined) return hidesDeleted ? total - deleted : total;
+        if (idMap && !hidesDeleted) return Object.values(idMap).filter((idx) => idx === partition).length;
+    }
+
+    const { filter, callback } = this.#visible(instructions);
+
+    const context = this.#queryContext(collection, filter);
+    const plan = this.#plan(collection, { filter, hasCallback: !!callback, partition, textScores: context.textScores, wanted: Infinity });
+    if (plan.exact) return plan.ids!.length;
+
+    const matcher = match(filter || {}, callback, context);
+    let total = 0;
+    if (plan.ids) {
+        const load = this.#documentLoader(collection);
+        for (const id of plan.ids) {
+            const doc = await load(id);
+            if (doc && matcher(doc, 0)) total++;
+        }
+        return total;
+    }
+
+    for await (const doc of this.#scan(collection, partition)) {
+        if (matcher(doc, 0)) total++;
+    }
+    return total;
+  }
+
+  async distinct(instructions: DistinctInstructions) {
+    instructions = this.#visible(instructions);
+    const { collection = "default", callback, index, filter, field } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+    if (!field) throw new ValidationError("DISTINCT ERROR: no field given");
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    // Keyed by JSON so objects and arrays are deduplicated by content
+    const values = new Map<string, any>();
+    const add = (value: any) => {
+        for (const v of Array.isArray(value) ? value : [value]) {
+            if (v !== undefined) values.set(JSON.stringify(v), v);
+        }
+    };
+
+    const partition = typeof index === "string" ? index : undefined;
+    // A partial index does not hold the values of every document
+    const secondaryIndex = this.#db[collection].__indexes?.[field]?.partialFilter
+        ? undefined
+        : this.#db[collection].__secondary_indexes?.[field];
+    const filterFields = filter ? Object.keys(filter).length : 0;
+
+    if (secondaryIndex && isOrdered(secondaryIndex) && filterFields === 0 && !callback && partition === undefined) {
+        // Ordered indexes keep typed values; only the null entry also holds missing values
+        const load = this.#documentLoader(collection);
+        for (const [value, ids] of secondaryIndex) {
+            if (value !== null) {
+                add(value);
+                continue;
+            }
+            for (const id of ids) {
+                const doc = await load(id);
+                const actual = getPath(doc, field);
+                if (actual === null || (Array.isArray(actual) && actual.includes(null))) {
+                    add(null);
+                    break;
+                }
+            }
+        }
+    } else if (secondaryIndex && filterFields === 0 && !callback && partition === undefined) {
+        // Hash buckets are keyed by String(value), so 1 and "1" share one;
+        // read the actual values of every document the index lists
+        const load = this.#documentLoader(collection);
+        const seen = new Set<number>();
+        for (const key in secondaryIndex) {
+            for (const id of (secondaryIndex as { [value: string]: number[] })[key]) {
+                if (seen.has(id)) continue;
+                seen.add(id);
+                add(getPath(await load(id), field));
+            }
+        }
+    } else {
+        const matcher = match(filter || {}, callback, this.#queryContext(collection, filter));
+        for await (const doc of this.#scan(collection, partition)) {
+            if (matcher(doc, 0)) add(getPath(doc, field));
+        }
+    }
+
+    return [...values.values()].sort(compareValues);
+  }
+
+  async exists(instructions: Instructions) {
+    instructions = this.#visible(instructions);
+    const { collection = "default", callback, index, filter, _id } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const partition = typeof index === "string" ? index : undefined;
+    const idMap = this.#db[collection].__id_map;
+    const filterFields = filter ? Object.keys(filter).length : 0;
+    const context = this.#queryContext(collection, filter);
+    const matcher = match(filter || {}, callback, context);
+
+    if (_id !== undefined && idMap) {
+        if (idMap[_id] === undefined) return false;
+        if (partition !== undefined && idMap[_id] !== partition) return false;
+        if (filterFields === 0 && !callback) return true;
+        const doc = await this.#documentLoader(collection)(_id);
+        return !!doc && matcher(doc, 0);
+    }
+
+    const plan = _id === undefined
+        ? this.#plan(collection, { filter, hasCallback: !!callback, partition, textScores: context.textScores, wanted: 1 })
+        : undefined;
+    if (plan?.ids) {
+        if (plan.exact) return plan.ids.length > 0;
+        const load = this.#documentLoader(collection);
+        for (const id of plan.ids) {
+            const doc = await load(id);
+            if (doc && matcher(doc, 0)) return true;
+        }
+        return false;
+    }
+
+    for await (const doc of this.#scan(collection, partition)) {
+        if ((_id === undefined || doc._id === _id) && matcher(doc, 0)) return true;
+    }
+    return false;
+  }
+
+  async aggregate(instructions: AggregateInstructions) {
+    const { collection = "default", index, pipeline } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const { filter, callback } = this.#visible<Instructions>({ collection, withDeleted: instructions.withDeleted });
+    const source = filter || callback ? this.#matching(this.#scan(collection, index), match(filter || {}, callback)) : this.#scan(collection, index);
+    return await runPipeline(source, pipeline, {
+        lookup: async (from, foreignField, values) => {
+            await this.#getCollection(from);
+            if (!this.#db || !this.#db[from]) return [];
+            return await this.findMany({
+                collection: from,
+                filter: { [foreignField]: values.length === 1 ? values[0] : { $in: values } },
+            });
+        },
+    });
+  }
+
   async createMany(instructions: Instructions) {
     const { collection = "default", data, index } = instructions;
     if (!this.#db) throw new DatabaseNotLoadedError();
@@ -996,6 +2081,7 @@ export class SencilloDB {
     
     if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
     delete this.#db[collection];
+    this.#recordChange("drop", collection);
     
     if (this.#folder) {
         this.#dirtyCollections.delete(collection); 
@@ -1039,21 +2125,13 @@ export class SencilloDB {
         }
     }
     
-    // Clean up Secondary Indexes
-    if (this.#db[collection].__secondary_indexes) {
-        for (const item of items) {
-            for (const field in this.#db[collection].__secondary_indexes) {
-                const value = item[field];
-                if (value !== undefined) {
-                    const strValue = String(value);
-                    const arr = this.#db[collection].__secondary_indexes[field][strValue];
-                    if (arr) {
-                        const i = arr.indexOf(item._id);
-                        if (i !== -1) arr.splice(i, 1);
-                    }
-                }
-            }
-        }
+    // Clean up Secondary Indexes; watchers already saw soft-deleted documents go
+    const softDelete = this.#softDeleteField(collection);
+    const stats = this.#db[collection].__stats;
+    for (const item of items) {
+        this.#unindexDocument(collection, item);
+        if (softDelete && item[softDelete] !== undefined) stats.deleted!--;
+        else this.#recordChange("delete", collection, item);
     }
   }
 
@@ -1066,26 +2144,76 @@ export class SencilloDB {
 
     if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
 
-    const items = await this.findMany({
-      collection,
-      callback: () => true,
-      sort,
-    });
+    // Every stored document, soft-deleted and not yet swept ones included
+    const items = await this.#query({ collection, sort });
 
-    // clear collection
+    // clear collection, keeping its indexes; watchers see a drop followed by
+    // the documents inserted again under their new _ids
+    this.#recordChange("drop", collection);
+    const definitions = this.#indexDefinitions(collection);
+    const { __schema } = this.#db[collection];
     this.#db[collection] = { __stats: { inserted: 0, total: 0 }, __id_map: {} };
+    if (__schema !== undefined) this.#db[collection].__schema = __schema;
+    for (const name in definitions) {
+      await this.#buildIndex(collection, name, definitions[name]);
+    }
 
     // rewrite all data
-    await this.createMany({
-      data: items,
-      index,
-      collection,
-    });
+    this.#keepTimestamps = true;
+    try {
+      await this.createMany({
+        data: items,
+        index,
+        collection,
+      });
+    } finally {
+      this.#keepTimestamps = false;
+    }
+    const softDelete = this.#softDeleteField(collection);
+    if (softDelete) this.#db[collection].__stats.deleted = items.filter((item: any) => item[softDelete] !== undefined).length;
   }
 
-  async ensureIndex(instructions: { collection: string; field: string }) {
-    const { collection, field } = instructions;
+  // Resolves the fields and name an index instruction refers to
+  #indexTarget(instructions: IndexInstructions) {
+    const { type = "hash" } = instructions;
+    const fields = Array.isArray(instructions.field) ? instructions.field : [instructions.field];
+    if (fields.length === 0 || fields.some((f) => typeof f !== "string" || f === "" || f.includes(","))) {
+        throw new ValidationError("INDEX ERROR: fields must be non-empty names without commas");
+    }
+    if (type !== "hash" && type !== "ordered" && type !== "text") {
+        throw new ValidationError(`INDEX ERROR: unknown index type ${type}`);
+    }
+    if (type === "text" && fields.length > 1) {
+        throw new ValidationError("INDEX ERROR: text indexes cover a single field");
+    }
+    return { fields, type, name: indexName(fields, type) };
+  }
+
+  // Definitions of every index, inferring any built before definitions were stored
+  #indexDefinitions(collection: string): { [name: string]: IndexDefinition } {
+    const { __secondary_indexes: indexes = {}, __text_indexes: textIndexes = {}, __indexes: definitions = {} } = this.#db![collection];
+    const all = { ...definitions };
+    for (const name in indexes) {
+        all[name] ??= { fields: indexFields(name), type: indexType(indexes[name]), createdAt: "" };
+    }
+    for (const field in textIndexes) {
+        const { stemming, stopWords } = textIndexes[field];
+        all[indexName([field], "text")] ??= { fields: [field], type: "text", stemming, stopWords, createdAt: "" };
+    }
+    return all;
+  }
+
+  async ensureIndex(instructions: IndexInstructions) {
+    const { collection, unique = false, sparse = false, partialFilter, stemming = false, stopWords = false } = instructions;
     if (!this.#db) throw new DatabaseNotLoadedError();
+
+    const { fields, type, name } = this.#indexTarget(instructions);
+    if (type === "text" && (unique || sparse || partialFilter)) {
+        throw new ValidationError("INDEX ERROR: text indexes take no unique, sparse or partialFilter option");
+    }
+    if (partialFilter !== undefined && (typeof partialFilter !== "object" || partialFilter === null || Array.isArray(partialFilter))) {
+        throw new ValidationError("INDEX ERROR: partialFilter must be a filter object");
+    }
     
     await this.#getCollection(collection);
     if (this.#folder) this.#dirtyCollections.add(collection);
@@ -1094,82 +2222,206 @@ export class SencilloDB {
         this.#db[collection] = { __stats: { inserted: 0, total: 0 }, __id_map: {} };
     }
 
-    if (!this.#db[collection].__secondary_indexes) {
-        this.#db[collection].__secondary_indexes = {};
+    // Only options that are set are stored, so plain indexes carry none
+    const definition: IndexDefinition = { fields, type, createdAt: this.#now() };
+    if (type === "text") {
+        const { stemming: stem, stopWords: words } = createTextIndex({ stemming, stopWords });
+        if (stem) definition.stemming = true;
+        if (words.length > 0) definition.stopWords = stopWords;
+    }
+    if (unique) definition.unique = true;
+    if (sparse) definition.sparse = true;
+    if (partialFilter) definition.partialFilter = partialFilter;
+
+    const existing = this.#indexDefinitions(collection)[name];
+    if (existing) {
+        if (existing.type !== type) {
+            throw new ValidationError(`INDEX ERROR: ${name} already has a ${existing.type} index`);
+        }
+        const { createdAt: _a, ...current } = existing;
+        const { createdAt: _b, ...requested } = definition;
+        if (!isEqual(current, requested)) {
+            throw new ValidationError(`INDEX ERROR: ${name} already has an index with other options`);
+        }
+        return;
     }
 
-    if (!this.#db[collection].__secondary_indexes[field]) {
-        this.#db[collection].__secondary_indexes[field] = {};
-        // Populate existing data
-        const items = await this.findMany({ collection, callback: () => true });
-        for (const item of items) {
-            const value = item[field];
-            if (value !== undefined) {
-                const strValue = String(value);
-                if (!this.#db[collection].__secondary_indexes[field][strValue]) {
-                    this.#db[collection].__secondary_indexes[field][strValue] = [];
+    await this.#buildIndex(collection, name, definition);
+  }
+
+  // Builds an index from the collection's documents and records its definition
+  async #buildIndex(collection: string, name: string, definition: IndexDefinition) {
+    const { fields, type } = definition;
+
+    if (type === "text") {
+        const index = createTextIndex(definition);
+        for await (const item of this.#scan(collection)) {
+            addToTextIndex(index, getPath(item, fields[0]), item._id);
+        }
+        if (!this.#db![collection].__text_indexes) this.#db![collection].__text_indexes = {};
+        this.#db![collection].__text_indexes![fields[0]] = index;
+    } else {
+        const index = createIndex(type);
+        // Typed keys of the values seen so far, to refuse duplicates in existing data
+        const owners = new Map<string, number>();
+        const expired = definition.unique ? this.#expired(collection) : undefined;
+        for await (const item of this.#scan(collection)) {
+            const key = indexedValue(name, definition, item);
+            if (!key) continue;
+            if (definition.unique && !expired?.(item)) {
+                for (const v of Array.isArray(key.value) ? key.value : [key.value]) {
+                    if (v === undefined || v === null) continue;
+                    const owner = owners.get(JSON.stringify(v));
+                    if (owner !== undefined && owner !== item._id) throw new UniqueConstraintError(name, v, owner);
+                    owners.set(JSON.stringify(v), item._id);
                 }
-                this.#db[collection].__secondary_indexes[field][strValue].push(item._id);
             }
+            addToIndex(index, key.value, item._id);
         }
+        if (!this.#db![collection].__secondary_indexes) this.#db![collection].__secondary_indexes = {};
+        this.#db![collection].__secondary_indexes![name] = index;
     }
+
+    if (!this.#db![collection].__indexes) this.#db![collection].__indexes = {};
+    this.#db![collection].__indexes![name] = definition;
   }
+
+  async setSchema(instructions: { collection: string; schema: JsonSchema | null }) {
+    const { collection, schema } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) {
+        this.#db[collection] = { __stats: { inserted: 0, total: 0 }, __id_map: {} };
+    }
+
+    if (schema === null || schema === undefined) {
+        delete this.#db[collection].__schema;
+        return;
+    }
+
+    checkJsonSchema(schema);
+    const previous = this.#db[collection].__schema;
+    this.#db[collection].__schema = structuredClone(schema);
+    // Documents already stored must satisfy the new schema too
+    try {
+        for await (const item of this.#scan(collection)) this.#checkSchema(collection, item);
+    } catch (error) {
+        if (previous === undefined) delete this.#db[collection].__schema;
+        else this.#db[collection].__schema = previous;
+        throw error;
+    }
+  }
+
+  async getSchema(instructions: { collection: string }): Promise<JsonSchema | undefined> {
+    const { collection } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    const schema = this.#db[collection]?.__schema;
+    return schema === undefined ? undefined : structuredClone(schema);
+  }
+
+  async listIndexes(instructions: { collection: string }) {
+    const { collection } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    await this.#getCollection(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const definitions = this.#indexDefinitions(collection);
+    return Object.keys(definitions).map((name) => ({ name, ...definitions[name] }));
+  }
+
+  async dropSecondaryIndex(instructions: IndexInstructions) {
+    const { collection } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    const { fields, type, name } = this.#indexTarget(instructions);
+
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const structures = type === "text" ? this.#db[collection].__text_indexes : this.#db[collection].__secondary_indexes;
+    const key = type === "text" ? fields[0] : name;
+    if (!structures?.[key]) throw new IndexNotFoundError(name);
+
+    delete structures[key];
+    delete this.#db[collection].__indexes?.[name];
+  }
+
+  async rebuildIndex(instructions: IndexInstructions) {
+    const { collection } = instructions;
+    if (!this.#db) throw new DatabaseNotLoadedError();
+
+    const { name } = this.#indexTarget(instructions);
+
+    await this.#getCollection(collection);
+    if (this.#folder) this.#dirtyCollections.add(collection);
+
+    if (!this.#db[collection]) throw new CollectionNotFoundError(collection);
+
+    const definition = this.#indexDefinitions(collection)[name];
+    if (!definition) throw new IndexNotFoundError(name);
+
+    await this.#buildIndex(collection, name, definition.createdAt ? definition : { ...definition, createdAt: this.#now() });
+  }
+
 }
 
-export const quickTx = (db: SencilloDB) => {
-  return async (operation: keyof Transaction, instructions: Instructions) => {
-    return db.transaction((tx) => {
+export const quickTx = <S extends Schema>(db: SencilloDB<S>) => {
+  return async (operation: keyof Transaction<S>, instructions: Instructions) => {
+    return db.transaction<any>((tx) => {
       // @ts-ignore
       return tx[operation](instructions);
     });
   };
 };
 
-export const createResourceManager = (config: {
-    schema?: [string, any][],
-    db?: SencilloDB,
+export const createResourceManager = <S extends Schema>(config: {
+    schema?: ObjectSchema,
+    db?: SencilloDB<S>,
     index?: (obj: any) => string,
-    collection?: string
+    collection?: string,
+    coerce?: boolean
 }) => {
   let {
     schema = [],
     db = undefined,
     index = () => "default",
     collection = "default",
+    coerce = false,
   } = config;
 
   if (!db) throw new DatabaseNotLoadedError();
 
   const qtx = quickTx(db);
+  // Returns the document with defaults and coercion applied, or throws a
+  // ValidationError listing every violation
+  const parse = (obj: any) => parseDocument(schema, obj, { coerce });
 
   return {
     validate: (obj: any) => {
-      const keys = Object.keys(obj);
-
-      for (let property of schema) {
-        if (!keys.includes(property[0])) {
-          throw new ValidationError(`RESOURE VALIDATION ERROR: ${property[0]} missing in some of the data presented`);
-        }
-
-        // console.log(obj[property[0]].constructor === property[1]);
-        if (obj[property[0]].constructor !== property[1]) {
-          throw new ValidationError(`RESOURE VALIDATION ERROR: ${property[0]} is not of type ${property[1]}`);
-        }
-      }
-
+      parse(obj);
       return true;
     },
-    execute(operation: keyof Transaction, instructions: Instructions) {
+    parse,
+    async execute(operation: keyof Transaction<S>, instructions: Instructions) {
+      let { data } = instructions;
       if (["create", "createMany", "update"].includes(operation)) {
-        if (Array.isArray(instructions.data)) {
-          for (let i of instructions.data) {
-            this.validate(i);
-          }
+        if (Array.isArray(data)) {
+          data = data.map((i) => parse(i));
         } else {
-          if (typeof instructions.data !== "object") {
+          if (typeof data !== "object" || data === null) {
             throw new ValidationError("EXECUTE ERROR: data is not object or array");
           }
-          this.validate(instructions.data);
+          data = operation === "update" && isUpdateDocument(data) ? parseUpdate(schema, data, { coerce }) : parse(data);
         }
       }
 
@@ -1181,7 +2433,7 @@ export const createResourceManager = (config: {
         }
       }
 
-      return qtx(operation, { index: indexToUse, collection, ...instructions });
+      return qtx(operation, { index: indexToUse, collection, ...instructions, ...(data === undefined ? {} : { data }) });
     },
   };
 };
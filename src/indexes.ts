@@ -0,0 +1,226 @@
+import { compareValues, matchesFilter, typeRank } from "./query.js";
+import { getPath } from "./utils.js";
+import { TextIndexOptions } from "./text.js";
+
+// value (in its string form) -> ids
+export type HashIndex = { [value: string]: number[] };
+// [value, ids] entries kept sorted by value; ids are kept in ascending order
+export type OrderedIndex = [any, number[]][];
+export type SecondaryIndex = HashIndex | OrderedIndex;
+
+export type IndexType = "hash" | "ordered";
+
+export interface IndexOptions {
+  unique?: boolean;
+  // Leave out documents missing every indexed field
+  sparse?: boolean;
+  // Only index documents matching this filter
+  partialFilter?: any;
+}
+
+// Persisted description of an index, kept under `__indexes` by name
+export interface IndexDefinition extends IndexOptions, TextIndexOptions {
+  fields: string[];
+  type: IndexType | "text";
+  createdAt: string;
+}
+
+export interface RangeBounds {
+  $gt?: any;
+  $gte?: any;
+  $lt?: any;
+  $lte?: any;
+}
+
+export const isOrdered = (index: SecondaryIndex): index is OrderedIndex => Array.isArray(index);
+
+export const indexType = (index: SecondaryIndex): IndexType => (isOrdered(index) ? "ordered" : "hash");
+
+export const createIndex = (type: IndexType): SecondaryIndex => (type === "ordered" ? [] : {});
+
+// Compound indexes are named by their fields joined with commas
+export const indexFields = (name: string): string[] => name.split(",");
+
+// Text indexes get their own names so a field can also have a hash or ordered index
+export const indexName = (fields: string[], type: IndexType | "text"): string =>
+  type === "text" ? `text:${fields[0]}` : fields.join(",");
+
+// What a document contributes to an index, or undefined when a sparse or
+// partial index leaves it out. Compound indexes key documents by the tuple of
+// their field values, with one tuple per combination of array elements.
+export const indexedValue = (name: string, options: IndexOptions | undefined, doc: any): { value: any } | undefined => {
+  if (options?.partialFilter && !matchesFilter(doc, options.partialFilter)) return;
+  const fields = indexFields(name);
+  const values = fields.map((field) => getPath(doc, field));
+  if (options?.sparse && values.every((value) => value === undefined)) return;
+  if (fields.length === 1) return { value: values[0] };
+
+  let tuples: any[][] = [[]];
+  for (const value of values) {
+    const choices = Array.isArray(value) && value.length > 0 ? value : [Array.isArray(value) ? null : value];
+    tuples = tuples.flatMap((tuple) => choices.map((choice) => [...tuple, choice ?? null]));
+  }
+  return { value: tuples };
+};
+
+// First position whose value is not less than `value`
+const lowerBound = (entries: OrderedIndex, value: any): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareValues(entries[mid][0], value) < 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// First position whose value is greater than `value`
+const upperBound = (entries: OrderedIndex, value: any): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (compareValues(entries[mid][0], value) <= 0) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const insertSorted = (ids: number[], id: number) => {
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ids[mid] < id) low = mid + 1;
+    else high = mid;
+  }
+  ids.splice(low, 0, id);
+};
+
+// Arrays are indexed once per distinct element so lookups match any element;
+// ordered indexes record missing values and empty arrays as null so they cover
+// every document
+const indexValues = (index: SecondaryIndex, value: any): any[] => {
+  if (!Array.isArray(value)) return [value];
+  if (value.length === 0) return [isOrdered(index) ? null : undefined];
+  const unique = new Map<string, any>();
+  for (const v of value) unique.set(JSON.stringify(v ?? null), v);
+  return [...unique.values()];
+};
+
+export const addToIndex = (index: SecondaryIndex, value: any, id: number) => {
+  for (const v of indexValues(index, value)) addValue(index, v, id);
+};
+
+export const removeFromIndex = (index: SecondaryIndex, value: any, id: number) => {
+  for (const v of indexValues(index, value)) removeValue(index, v, id);
+};
+
+const addValue = (index: SecondaryIndex, value: any, id: number) => {
+  if (isOrdered(index)) {
+    const key = value ?? null;
+    const i = lowerBound(index, key);
+    if (i < index.length && compareValues(index[i][0], key) === 0) {
+      insertSorted(index[i][1], id);
+    } else {
+      index.splice(i, 0, [key, [id]]);
+    }
+    return;
+  }
+
+  if (value === undefined) return;
+  const strValue = String(value);
+  if (!index[strValue]) index[strValue] = [];
+  index[strValue].push(id);
+};
+
+const removeValue = (index: SecondaryIndex, value: any, id: number) => {
+  if (isOrdered(index)) {
+    const key = value ?? null;
+    const i = lowerBound(index, key);
+    if (i < index.length && compareValues(index[i][0], key) === 0) {
+      const ids = index[i][1];
+      const position = ids.indexOf(id);
+      if (position !== -1) ids.splice(position, 1);
+      if (ids.length === 0) index.splice(i, 1);
+    }
+    return;
+  }
+
+  if (value === undefined) return;
+  const arr = index[String(value)];
+  if (arr) {
+    const i = arr.indexOf(id);
+    if (i !== -1) arr.splice(i, 1);
+  }
+};
+
+export const lookupEqual = (index: SecondaryIndex, value: any): number[] => {
+  if (isOrdered(index)) {
+    const i = lowerBound(index, value);
+    return i < index.length && compareValues(index[i][0], value) === 0 ? index[i][1] : [];
+  }
+  return index[String(value)] || [];
+};
+
+// Ids under the compound keys whose leading values equal `prefix`
+export const lookupPrefix = (index: OrderedIndex, prefix: any[]): number[] => {
+  const ids = new Set<number>();
+  for (let i = lowerBound(index, prefix); i < index.length; i++) {
+    const key = index[i][0];
+    if (!Array.isArray(key) || compareValues(key.slice(0, prefix.length), prefix) !== 0) break;
+    index[i][1].forEach((id) => ids.add(id));
+  }
+  return [...ids];
+};
+
+// Range lookups only return values of the same type as the bounds,
+// matching how the filter operators compare. Like the operators, each bound
+// may be met by a different element of an array, so { v: [1, 10] } is within
+// { $gt: 5, $lt: 8 }: two-sided ranges intersect the ids of each side.
+export const lookupRange = (index: OrderedIndex, bounds: RangeBounds): number[] => {
+  const { $gt, $gte, $lt, $lte } = bounds;
+  if (($gt !== undefined || $gte !== undefined) && ($lt !== undefined || $lte !== undefined)) {
+    const upper = new Set(lookupRange(index, { $lt, $lte }));
+    return lookupRange(index, { $gt, $gte }).filter((id) => upper.has(id));
+  }
+
+  const lowerValue = bounds.$gte !== undefined ? bounds.$gte : bounds.$gt;
+  const upperValue = bounds.$lte !== undefined ? bounds.$lte : bounds.$lt;
+  const rank = typeRank(lowerValue !== undefined ? lowerValue : upperValue);
+
+  let start = 0;
+  let end = index.length;
+  if (bounds.$gte !== undefined) start = lowerBound(index, bounds.$gte);
+  else if (bounds.$gt !== undefined) start = upperBound(index, bounds.$gt);
+  if (bounds.$lte !== undefined) end = upperBound(index, bounds.$lte);
+  else if (bounds.$lt !== undefined) end = lowerBound(index, bounds.$lt);
+
+  const ids = new Set<number>();
+  for (let i = start; i < end; i++) {
+    if (typeRank(index[i][0]) === rank) index[i][1].forEach((id) => ids.add(id));
+  }
+  return [...ids];
+};
+
+// The range operators of a condition, if the condition uses nothing else
+export const rangeBounds = (condition: any): RangeBounds | undefined => {
+  if (typeof condition !== "object" || condition === null || Array.isArray(condition)) return;
+  const keys = Object.keys(condition);
+  if (keys.length === 0 || !keys.every((key) => ["$gt", "$gte", "$lt", "$lte"].includes(key))) return;
+  const ranks = new Set(keys.map((key) => typeRank(condition[key])));
+  if (ranks.size !== 1 || ranks.has(0)) return;
+  return condition;
+};
+
+// Walks an ordered index in sort order; missing/null values come first unless `nullsFirst` is false
+export function* walkOrdered(index: OrderedIndex, order: 1 | -1, nullsFirst: boolean): Generator<number> {
+  const nulls = index.length > 0 && index[0][0] === null ? index[0][1] : [];
+  const values = nulls.length > 0 ? index.slice(1) : index.slice();
+  if (order === -1) values.reverse();
+
+  if (nullsFirst) yield* nulls;
+  for (const [, ids] of values) yield* ids;
+  if (!nullsFirst) yield* nulls;
+}
@@ -0,0 +1,179 @@
+import { ValidationError } from "./errors.js";
+import { isEqual } from "./utils.js";
+import type { SchemaViolation } from "./schema.js";
+
+// A JSON Schema (draft 2020-12). Supported keywords: type, enum, const,
+// properties, required, additionalProperties, patternProperties,
+// min/maxProperties, items, prefixItems, contains, min/maxItems, uniqueItems,
+// min/maxLength, pattern, minimum, maximum, exclusiveMinimum,
+// exclusiveMaximum, multipleOf, allOf, anyOf, oneOf, not, if/then/else, and
+// $ref into the same schema ("#/$defs/..."). Other keywords are annotations.
+export type JsonSchema = boolean | { [keyword: string]: any };
+
+const TYPES = ["null", "boolean", "object", "array", "number", "integer", "string"];
+
+// Keywords holding one subschema, a list of them, or a map of them
+const SUBSCHEMA = ["additionalProperties", "items", "contains", "not", "if", "then", "else"];
+const SUBSCHEMA_LISTS = ["prefixItems", "allOf", "anyOf", "oneOf"];
+const SUBSCHEMA_MAPS = ["properties", "patternProperties", "$defs"];
+
+const typeOf = (value: any): string => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+const hasType = (value: any, type: string): boolean => {
+  if (type === "integer") return Number.isInteger(value);
+  return typeOf(value) === type;
+};
+
+const child = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+const resolveRef = (root: JsonSchema, ref: string): JsonSchema => {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) throw new ValidationError(`SCHEMA ERROR: only local $ref values are supported, got ${ref}`);
+  let node: any = root;
+  for (const part of ref.slice(2).split("/")) {
+    node = node?.[part.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  if (node === undefined) throw new ValidationError(`SCHEMA ERROR: cannot resolve $ref ${ref}`);
+  return node;
+};
+
+const checkPattern = (pattern: any, path: string) => {
+  try {
+    new RegExp(pattern, "u");
+  } catch {
+    throw new ValidationError(`SCHEMA ERROR: ${path} is not a valid regular expression`);
+  }
+};
+
+// Throws when a schema uses a keyword in a way it cannot be checked
+export const checkJsonSchema = (schema: JsonSchema, root: JsonSchema = schema, path = "#") => {
+  if (typeof schema === "boolean") return;
+  if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+    throw new ValidationError(`SCHEMA ERROR: ${path} must be an object or a boolean`);
+  }
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const unknown = types.find((type: any) => !TYPES.includes(type));
+    if (unknown !== undefined) throw new ValidationError(`SCHEMA ERROR: ${path} has unknown type ${unknown}`);
+  }
+  if (schema.$ref !== undefined) resolveRef(root, schema.$ref);
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) throw new ValidationError(`SCHEMA ERROR: ${path}/enum must be an array`);
+  if (schema.required !== undefined && !Array.isArray(schema.required)) throw new ValidationError(`SCHEMA ERROR: ${path}/required must be an array`);
+  if (schema.pattern !== undefined) checkPattern(schema.pattern, `${path}/pattern`);
+
+  for (const keyword of SUBSCHEMA) {
+    if (schema[keyword] !== undefined) checkJsonSchema(schema[keyword], root, `${path}/${keyword}`);
+  }
+  for (const keyword of SUBSCHEMA_LISTS) {
+    if (schema[keyword] === undefined) continue;
+    if (!Array.isArray(schema[keyword])) throw new ValidationError(`SCHEMA ERROR: ${path}/${keyword} must be an array`);
+    schema[keyword].forEach((sub: JsonSchema, i: number) => checkJsonSchema(sub, root, `${path}/${keyword}/${i}`));
+  }
+  for (const keyword of SUBSCHEMA_MAPS) {
+    for (const key in schema[keyword] || {}) {
+      if (keyword === "patternProperties") checkPattern(key, `${path}/patternProperties/${key}`);
+      checkJsonSchema(schema[keyword][key], root, `${path}/${keyword}/${key}`);
+    }
+  }
+};
+
+const validate = (schema: JsonSchema, value: any, path: string, root: JsonSchema, errors: SchemaViolation[]) => {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push({ path, reason: "is not allowed" });
+    return;
+  }
+
+  if (schema.$ref !== undefined) validate(resolveRef(root, schema.$ref), value, path, root, errors);
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      errors.push({ path, reason: `must be of type ${types.join(" or ")}` });
+      return;
+    }
+  }
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    errors.push({ path, reason: `must equal ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum !== undefined && !schema.enum.some((option: any) => isEqual(value, option))) {
+    errors.push({ path, reason: `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push({ path, reason: `must be at least ${schema.minimum}` });
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push({ path, reason: `must be at most ${schema.maximum}` });
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push({ path, reason: `must be greater than ${schema.exclusiveMinimum}` });
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push({ path, reason: `must be less than ${schema.exclusiveMaximum}` });
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) errors.push({ path, reason: `must be a multiple of ${schema.multipleOf}` });
+  }
+
+  if (typeof value === "string") {
+    // Lengths count code points, not UTF-16 units
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) errors.push({ path, reason: `must have a length of at least ${schema.minLength}` });
+    if (schema.maxLength !== undefined && length > schema.maxLength) errors.push({ path, reason: `must have a length of at most ${schema.maxLength}` });
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) errors.push({ path, reason: `must match ${schema.pattern}` });
+  }
+
+  if (Array.isArray(value)) {
+    const prefix: JsonSchema[] = schema.prefixItems || [];
+    value.forEach((item, i) => {
+      const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+      if (itemSchema !== undefined) validate(itemSchema, item, child(path, i), root, errors);
+    });
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push({ path, reason: `must have at least ${schema.minItems} items` });
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push({ path, reason: `must have at most ${schema.maxItems} items` });
+    if (schema.uniqueItems && value.some((item, i) => value.findIndex((other) => isEqual(other, item)) !== i)) {
+      errors.push({ path, reason: "must not contain duplicate items" });
+    }
+    if (schema.contains !== undefined) {
+      const matches = value.filter((item) => validateJsonSchema(schema.contains, item, root).length === 0).length;
+      const { minContains = 1, maxContains = Infinity } = schema;
+      if (matches < minContains || matches > maxContains) errors.push({ path, reason: "must contain a matching item" });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push({ path: child(path, key), reason: "is required" });
+    }
+    const properties = schema.properties || {};
+    const patterns = Object.keys(schema.patternProperties || {}).map((pattern) => [new RegExp(pattern, "u"), schema.patternProperties[pattern]] as const);
+    for (const key of Object.keys(value)) {
+      let known = false;
+      if (key in properties) {
+        known = true;
+        validate(properties[key], value[key], child(path, key), root, errors);
+      }
+      for (const [pattern, sub] of patterns) {
+        if (!pattern.test(key)) continue;
+        known = true;
+        validate(sub, value[key], child(path, key), root, errors);
+      }
+      if (!known && schema.additionalProperties !== undefined) {
+        validate(schema.additionalProperties, value[key], child(path, key), root, errors);
+      }
+    }
+    const count = Object.keys(value).length;
+    if (schema.minProperties !== undefined && count < schema.minProperties) errors.push({ path, reason: `must have at least ${schema.minProperties} properties` });
+    if (schema.maxProperties !== undefined && count > schema.maxProperties) errors.push({ path, reason: `must have at most ${schema.maxProperties} properties` });
+  }
+
+  const passes = (sub: JsonSchema) => validateJsonSchema(sub, value, root).length === 0;
+  for (const sub of schema.allOf || []) validate(sub, value, path, root, errors);
+  if (schema.anyOf && !schema.anyOf.some(passes)) errors.push({ path, reason: "must match a schema in anyOf" });
+  if (schema.oneOf && schema.oneOf.filter(passes).length !== 1) errors.push({ path, reason: "must match exactly one schema in oneOf" });
+  if (schema.not !== undefined && passes(schema.not)) errors.push({ path, reason: "must not match the schema in not" });
+  if (schema.if !== undefined) {
+    const branch = passes(schema.if) ? schema.then : schema.else;
+    if (branch !== undefined) validate(branch, value, path, root, errors);
+  }
+};
+
+// Every violation of `schema` by `value`, with dotted paths ("" for the value itself)
+export const validateJsonSchema = (schema: JsonSchema, value: any, root: JsonSchema = schema): SchemaViolation[] => {
+  const errors: SchemaViolation[] = [];
+  validate(schema, value, "", root, errors);
+  return errors;
+};
@@ -0,0 +1,24 @@
+import { ValidationError } from "./errors.js";
+
+export interface CursorPosition {
+  id: number;
+  key?: any[];
+}
+
+// Cursors are opaque to callers: base64url-encoded JSON of the last position
+export const encodeCursor = (position: CursorPosition): string => {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+};
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  let position: any;
+  try {
+    position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch (e) {
+    throw new ValidationError("CURSOR ERROR: malformed cursor");
+  }
+  if (!position || typeof position.id !== "number" || (position.key !== undefined && !Array.isArray(position.key))) {
+    throw new ValidationError("CURSOR ERROR: malformed cursor");
+  }
+  return position;
+};
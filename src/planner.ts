@@ -0,0 +1,228 @@
+import {
+  SecondaryIndex,
+  IndexOptions,
+  indexFields,
+  isOrdered,
+  lookupEqual,
+  lookupPrefix,
+  lookupRange,
+  rangeBounds,
+  walkOrdered,
+} from "./indexes.js";
+import { parseSort, typeRank, SortSpec } from "./query.js";
+import { isEqual } from "./utils.js";
+
+export type PlanStrategy =
+  | "indexLookup"     // fetch the candidate ids produced by secondary indexes
+  | "indexSort"       // walk an ordered index in sort order
+  | "partitionScan"   // scan the partition named by the `index` hint
+  | "idOrderScan"     // walk the ID map in _id order until the limit is met
+  | "collectionScan"; // scan every partition
+
+export interface QueryPlan {
+  strategy: PlanStrategy;
+  // Fields whose indexes narrowed the candidates (intersected when several),
+  // with "$text" standing for a text search
+  indexes: string[];
+  sortIndex?: string;
+  partition?: string;
+  candidates?: number;
+  // True when the candidates alone answer the whole filter
+  exact: boolean;
+  ids?: number[];
+  order?: Iterable<number>;
+}
+
+export interface PlanInput {
+  indexes?: { [field: string]: SecondaryIndex };
+  options?: { [field: string]: IndexOptions };
+  idMap?: { [id: number]: string };
+  filter?: any;
+  hasCallback?: boolean;
+  sort?: ((a: any, b: any) => number) | SortSpec;
+  partition?: string;
+  // Scores of a top-level $text search, whose matches are candidates too
+  textScores?: Map<number, number>;
+  // Number of documents the caller needs (skip + limit); Infinity when unlimited
+  wanted: number;
+}
+
+interface Required {
+  conditions: [string, any][];
+  // Set when an operator such as $or was left out, so the conditions alone
+  // do not describe the whole filter
+  skipped: boolean;
+}
+
+// Conditions that must all hold: top-level fields plus those nested in $and.
+// A top-level $text is answered by the text scores instead
+const requiredConditions = (filter: any, out: Required = { conditions: [], skipped: false }, top = true): Required => {
+  for (const key in filter) {
+    if (key === "$and" && Array.isArray(filter[key])) {
+      filter[key].forEach((branch: any) => requiredConditions(branch, out, false));
+    } else if (!key.startsWith("$")) {
+      out.conditions.push([key, filter[key]]);
+    } else if (!(top && key === "$text")) {
+      out.skipped = true;
+    }
+  }
+  return out;
+};
+
+// Only scalars can be looked up; arrays and objects are matched by content
+const isScalar = (value: any) => typeRank(value) !== 3 && typeRank(value) !== 4;
+
+interface Lookup {
+  ids: number[];
+  exact: boolean;
+}
+
+const lookup = (index: SecondaryIndex, condition: any, sparse: boolean): Lookup | undefined => {
+  // A null lookup also returns documents missing the field, so it only narrows;
+  // sparse indexes leave those documents out and cannot answer it at all.
+  // Hash buckets are keyed by String(value), so 1 and "1" share one and only
+  // ordered lookups are exact, as for compound indexes
+  const exactEqual = (value: any) => isOrdered(index) && value !== null;
+
+  if (typeof condition !== "object" || condition === null) {
+    if (sparse && condition === null) return;
+    return { ids: lookupEqual(index, condition), exact: exactEqual(condition) };
+  }
+  if (Array.isArray(condition)) return;
+
+  const keys = Object.keys(condition);
+  if (keys.length === 1 && keys[0] === "$eq" && isScalar(condition.$eq)) {
+    if (sparse && condition.$eq === null) return;
+    return { ids: lookupEqual(index, condition.$eq), exact: exactEqual(condition.$eq) };
+  }
+  if (keys.length === 1 && keys[0] === "$in" && Array.isArray(condition.$in) && condition.$in.every(isScalar)) {
+    if (sparse && condition.$in.includes(null)) return;
+    const ids = new Set<number>();
+    for (const value of condition.$in) lookupEqual(index, value).forEach((id) => ids.add(id));
+    return { ids: [...ids], exact: condition.$in.every(exactEqual) };
+  }
+  if (!isOrdered(index)) return;
+  const bounds = rangeBounds(condition);
+  if (bounds) return { ids: lookupRange(index, bounds), exact: true };
+};
+
+const equalityValue = (condition: any): { value: any } | undefined => {
+  if (typeof condition !== "object" || condition === null) return { value: condition };
+  const keys = Object.keys(condition);
+  if (keys.length === 1 && keys[0] === "$eq" && isScalar(condition.$eq)) return { value: condition.$eq };
+};
+
+// Compound indexes answer equality on a leading run of their fields: all of
+// them for hash indexes, any prefix for ordered ones
+const lookupCompound = (
+  index: SecondaryIndex,
+  fields: string[],
+  conditions: [string, any][]
+): (Lookup & { covers: number[] }) | undefined => {
+  const prefix: any[] = [];
+  const covers: number[] = [];
+  for (const field of fields) {
+    const i = conditions.findIndex(([f, condition]) => f === field && equalityValue(condition));
+    if (i === -1) break;
+    prefix.push(equalityValue(conditions[i][1])!.value ?? null);
+    covers.push(i);
+  }
+  if (prefix.length === 0) return;
+  // Hash keys join the tuple into one string, so only ordered lookups are exact
+  const exact = isOrdered(index) && !prefix.includes(null);
+  if (prefix.length === fields.length) return { ids: lookupEqual(index, prefix), exact, covers };
+  if (isOrdered(index)) return { ids: lookupPrefix(index, prefix), exact, covers };
+};
+
+// A partial index only holds every possible match when the query repeats its filter
+const usable = (options: IndexOptions | undefined, conditions: [string, any][]): boolean => {
+  if (!options?.partialFilter) return true;
+  return Object.entries(options.partialFilter).every(([field, expected]) =>
+    conditions.some(([f, condition]) => f === field && isEqual(condition, expected))
+  );
+};
+
+// _id conditions are answered by the ID map, which acts as a unique index
+const lookupIds = (idMap: { [id: number]: string }, condition: any): Lookup | undefined => {
+  const known = (values: any[]) => values.filter((id) => typeof id === "number" && idMap[id] !== undefined);
+  if (typeof condition === "number") return { ids: known([condition]), exact: true };
+  if (typeof condition !== "object" || condition === null || Array.isArray(condition)) return;
+  const keys = Object.keys(condition);
+  if (keys.length === 1 && keys[0] === "$eq") return { ids: known([condition.$eq]), exact: true };
+  if (keys.length === 1 && keys[0] === "$in" && Array.isArray(condition.$in)) {
+    return { ids: [...new Set(known(condition.$in))], exact: true };
+  }
+};
+
+export const planQuery = (input: PlanInput): QueryPlan => {
+  const { indexes = {}, options = {}, idMap, filter, hasCallback, sort, partition, textScores, wanted } = input;
+
+  // Every indexed condition yields a candidate set; start from the smallest
+  // and intersect it with the others
+  const { conditions, skipped } = requiredConditions(filter || {});
+  const lookups: (Lookup & { field: string; covers: number[] })[] = [];
+  conditions.forEach(([field, condition], i) => {
+    const index = indexes[field];
+    const found = index
+      ? usable(options[field], conditions) ? lookup(index, condition, !!options[field]?.sparse) : undefined
+      : field === "_id" && idMap ? lookupIds(idMap, condition) : undefined;
+    if (found) lookups.push({ field, ...found, covers: [i] });
+  });
+  for (const name in indexes) {
+    const fields = indexFields(name);
+    if (fields.length < 2 || !usable(options[name], conditions)) continue;
+    const found = lookupCompound(indexes[name], fields, conditions);
+    if (found) lookups.push({ field: name, ...found });
+  }
+  if (textScores) {
+    conditions.push(["$text", filter.$text]);
+    lookups.push({ field: "$text", ids: [...textScores.keys()], exact: true, covers: [conditions.length - 1] });
+  }
+  lookups.sort((a, b) => a.ids.length - b.ids.length);
+
+  let ids: number[] | undefined;
+  if (lookups.length > 0) {
+    ids = lookups[0].ids;
+    for (const other of lookups.slice(1)) {
+      const allowed = new Set(other.ids);
+      ids = ids.filter((id) => allowed.has(id));
+    }
+    // Hash buckets can list a document twice when its array values stringify alike
+    ids = [...new Set(ids)];
+    if (partition !== undefined) ids = ids.filter((id) => idMap?.[id] === partition);
+  }
+
+  const exactlyCovered = new Set(lookups.filter((l) => l.exact).flatMap((l) => l.covers));
+  const plan: QueryPlan = {
+    strategy: "collectionScan",
+    indexes: lookups.map((l) => l.field),
+    exact: !hasCallback && !skipped && lookups.length > 0 && conditions.every((_, i) => exactlyCovered.has(i)),
+  };
+  if (partition !== undefined) plan.partition = partition;
+  if (ids) {
+    plan.ids = ids;
+    plan.candidates = ids.length;
+  }
+
+  // A single-field sort on an ordered index can stream results in order. When
+  // candidates are already known it is only worth it if they outnumber the page.
+  if (sort && typeof sort === "object") {
+    const fields = parseSort(sort);
+    // Sparse and partial indexes do not list every document, so they cannot order all of them
+    const sortOptions = options[fields[0].path];
+    const sortIndex = fields.length === 1 && !fields[0].textScore && !sortOptions?.sparse && !sortOptions?.partialFilter
+      ? indexes[fields[0].path]
+      : undefined;
+    if (sortIndex && isOrdered(sortIndex) && (!ids || ids.length > wanted)) {
+      plan.strategy = "indexSort";
+      plan.sortIndex = fields[0].path;
+      plan.order = walkOrdered(sortIndex, fields[0].order, fields[0].nullsFirst);
+      return plan;
+    }
+  }
+
+  if (ids) plan.strategy = "indexLookup";
+  else if (partition !== undefined) plan.strategy = "partitionScan";
+  else if (!sort && wanted !== Infinity && idMap) plan.strategy = "idOrderScan";
+  return plan;
+};
@@ -1,53 +1,140 @@
-export const match = (filter: any, callback?: (item: any) => boolean) => {
+import { ValidationError } from "./errors.js";
+import { getPath, isEqual } from "./utils.js";
+
+const isOperatorObject = (condition: any): boolean => {
+  if (typeof condition !== "object" || condition === null || Array.isArray(condition)) return false;
+  const keys = Object.keys(condition);
+  return keys.length > 0 && keys.every((key) => key.startsWith("$"));
+};
+
+// A field holding an array matches a plain value or comparison when any of
+// its elements does, as well as when the whole array matches.
+const anyValue = (value: any, test: (v: any) => boolean): boolean => {
+  if (test(value)) return true;
+  return Array.isArray(value) && value.some(test);
+};
+
+const equalsAny = (value: any, target: any) => anyValue(value, (v) => isEqual(v, target));
+
+// Range comparisons only ever look at scalars, never at the array itself, and
+// only compare values of the same type (so 10 is not greater than "5").
+const compareAny = (value: any, target: any, test: (result: number) => boolean): boolean => {
+  const rank = typeRank(target);
+  const compare = (v: any) => v !== undefined && v !== null && typeRank(v) === rank && test(compareValues(v, target));
+  if (Array.isArray(value)) return value.some(compare);
+  return compare(value);
+};
+
+export const matchesCondition = (value: any, condition: any): boolean => {
+  if (!isOperatorObject(condition)) {
+    // Direct comparison (objects and arrays compare by content)
+    return equalsAny(value, condition);
+  }
+
+  for (const operator in condition) {
+    const target = condition[operator];
+    switch (operator) {
+      case "$eq":
+        if (!equalsAny(value, target)) return false;
+        break;
+      case "$ne":
+        if (equalsAny(value, target)) return false;
+        break;
+      case "$gt":
+        if (!compareAny(value, target, (result) => result > 0)) return false;
+        break;
+      case "$gte":
+        if (!compareAny(value, target, (result) => result >= 0)) return false;
+        break;
+      case "$lt":
+        if (!compareAny(value, target, (result) => result < 0)) return false;
+        break;
+      case "$lte":
+        if (!compareAny(value, target, (result) => result <= 0)) return false;
+        break;
+      case "$in":
+        if (!Array.isArray(target) || !target.some((t) => equalsAny(value, t))) return false;
+        break;
+      case "$nin":
+        if (!Array.isArray(target) || target.some((t) => equalsAny(value, t))) return false;
+        break;
+      case "$regex":
+        if (!anyValue(value, (v) => typeof v === "string" && new RegExp(target).test(v))) return false;
+        break;
+      case "$not":
+        if (matchesCondition(value, target)) return false;
+        break;
+      case "$exists":
+        if ((value !== undefined) !== Boolean(target)) return false;
+        break;
+      case "$size":
+        if (!Array.isArray(value) || value.length !== target) return false;
+        break;
+      case "$all":
+        if (!Array.isArray(target)) {
+          throw new ValidationError("QUERY ERROR: $all expects an array");
+        }
+        if (!Array.isArray(value) || !target.every((t) => value.some((v) => isEqual(v, t)))) return false;
+        break;
+      case "$elemMatch":
+        if (!Array.isArray(value)) return false;
+        if (!value.some((element) =>
+          isOperatorObject(target)
+            ? matchesCondition(element, target)
+            : typeof element === "object" && element !== null && matchesFilter(element, target)
+        )) return false;
+        break;
+      default:
+        throw new ValidationError(`QUERY ERROR: unknown operator ${operator}`);
+    }
+  }
+  return true;
+};
+
+export interface QueryContext {
+  // Relevance of the documents matching a top-level $text search, by _id
+  textScores?: Map<number, number>;
+}
+
+const logicalBranches = (operator: string, branches: any): any[] => {
+  if (!Array.isArray(branches) || branches.length === 0) {
+    throw new ValidationError(`QUERY ERROR: ${operator} expects a non-empty array of filters`);
+  }
+  return branches;
+};
+
+export const matchesFilter = (item: any, filter: any, context: QueryContext = {}): boolean => {
+  // $text is only answered at the top level, so branches get no scores
+  const nested: QueryContext = { ...context, textScores: undefined };
+  for (const key in filter) {
+    const condition = filter[key];
+    switch (key) {
+      case "$and":
+        if (!logicalBranches(key, condition).every((branch) => matchesFilter(item, branch, nested))) return false;
+        break;
+      case "$or":
+        if (!logicalBranches(key, condition).some((branch) => matchesFilter(item, branch, nested))) return false;
+        break;
+      case "$nor":
+        if (logicalBranches(key, condition).some((branch) => matchesFilter(item, branch, nested))) return false;
+        break;
+      case "$text":
+        if (!context.textScores) {
+          throw new ValidationError("QUERY ERROR: $text must be at the top level of a find, findMany, count or exists filter");
+        }
+        if (!context.textScores.has(item._id)) return false;
+        break;
+      default:
+        if (!matchesCondition(getPath(item, key), condition)) return false;
+    }
+  }
+  return true;
+};
+
+export const match = (filter: any, callback?: (item: any) => boolean, context?: QueryContext) => {
   return (item: any, index: number): boolean => {
     // 1. Check Filter
-    if (filter) {
-        for (const key in filter) {
-            const value = item[key];
-            const condition = filter[key];
-        
-            if (typeof condition === "object" && condition !== null) {
-              // Check for operators
-              for (const operator in condition) {
-                const target = condition[operator];
-                switch (operator) {
-                  case "$eq":
-                    if (value !== target) return false;
-                    break;
-                  case "$ne":
-                    if (value === target) return false;
-                    break;
-                  case "$gt":
-                    if (!(value > target)) return false;
-                    break;
-                  case "$gte":
-                    if (!(value >= target)) return false;
-                    break;
-                  case "$lt":
-                    if (!(value < target)) return false;
-                    break;
-                  case "$lte":
-                    if (!(value <= target)) return false;
-                    break;
-                  case "$in":
-                    if (!Array.isArray(target) || !target.includes(value)) return false;
-                    break;
-                  case "$nin":
-                    if (!Array.isArray(target) || target.includes(value)) return false;
-                    break;
-                  case "$regex":
-                    if (typeof value !== "string" || !new RegExp(target).test(value)) return false;
-                    break;
-                  default:
-                    if (JSON.stringify(value) !== JSON.stringify(condition)) return false;
-                }
-              }
-            } else {
-              // Direct comparison
-              if (value !== condition) return false;
-            }
-          }
-    }
+    if (filter && !matchesFilter(item, filter, context)) return false;
 
     // 2. Check Callback
     if (callback) {
@@ -57,3 +144,201 @@ export const match = (filter: any, callback?: (item: any) => boolean) => {
     return true;
   };
 };
+
+type ProjectionTree = { [key: string]: true | ProjectionTree };
+
+const projectionTree = (paths: string[]): ProjectionTree => {
+  const tree: ProjectionTree = {};
+  for (const path of paths) {
+    const segments = path.split(".");
+    let node = tree;
+    segments.forEach((segment, i) => {
+      if (i === segments.length - 1) {
+        node[segment] = true;
+      } else {
+        if (node[segment] === true) return;
+        if (!node[segment]) node[segment] = {};
+        node = node[segment] as ProjectionTree;
+      }
+    });
+  }
+  return tree;
+};
+
+const pick = (value: any, tree: ProjectionTree): any => {
+  if (Array.isArray(value)) {
+    return value
+      .filter((element) => typeof element === "object" && element !== null)
+      .map((element) => pick(element, tree));
+  }
+  const result: any = {};
+  for (const key in tree) {
+    if (!(key in value)) continue;
+    const node = tree[key];
+    if (node === true) {
+      result[key] = value[key];
+    } else if (typeof value[key] === "object" && value[key] !== null) {
+      result[key] = pick(value[key], node);
+    }
+  }
+  return result;
+};
+
+const omit = (value: any, tree: ProjectionTree): any => {
+  if (Array.isArray(value)) {
+    return value.map((element) =>
+      typeof element === "object" && element !== null ? omit(element, tree) : element
+    );
+  }
+  const result: any = { ...value };
+  for (const key in tree) {
+    if (!(key in result)) continue;
+    const node = tree[key];
+    if (node === true) {
+      delete result[key];
+    } else if (typeof result[key] === "object" && result[key] !== null) {
+      result[key] = omit(result[key], node);
+    }
+  }
+  return result;
+};
+
+// Projections either include (1/true) or exclude (0/false) fields; the two
+// cannot be mixed except for `_id`, which is included unless excluded.
+export const project = (doc: any, projection: { [path: string]: any }) => {
+  if (!doc || typeof doc !== "object") return doc;
+
+  const included: string[] = [];
+  const excluded: string[] = [];
+  for (const path in projection) {
+    (projection[path] ? included : excluded).push(path);
+  }
+
+  if (included.length > 0) {
+    if (excluded.some((path) => path !== "_id")) {
+      throw new ValidationError("PROJECTION ERROR: cannot mix included and excluded fields");
+    }
+    if (!excluded.includes("_id") && !included.includes("_id")) included.push("_id");
+    return pick(doc, projectionTree(included));
+  }
+
+  return omit(doc, projectionTree(excluded));
+};
+
+export type SortOrder = 1 | -1;
+export type SortDirection =
+  | SortOrder
+  | { order: SortOrder; nulls?: "first" | "last" }
+  // Most relevant first for a $text search
+  | { $meta: "textScore" };
+export interface SortSpec {
+  [path: string]: SortDirection;
+}
+
+export const typeRank = (value: any): number => {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "number") return 1;
+  if (typeof value === "string") return 2;
+  if (Array.isArray(value)) return 4;
+  if (typeof value === "object") return 3;
+  if (typeof value === "boolean") return 5;
+  return 6;
+};
+
+// Total order over JSON values: null < numbers < strings < objects < arrays < booleans
+export const compareValues = (a: any, b: any): number => {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  switch (rankA) {
+    case 0:
+      return 0;
+    case 4:
+      for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compareValues(a[i], b[i]);
+        if (result !== 0) return result;
+      }
+      return a.length - b.length;
+    case 3: {
+      const jsonA = JSON.stringify(a);
+      const jsonB = JSON.stringify(b);
+      return jsonA < jsonB ? -1 : jsonA > jsonB ? 1 : 0;
+    }
+    default:
+      return a < b ? -1 : a > b ? 1 : 0;
+  }
+};
+
+export interface SortField {
+  path: string;
+  order: SortOrder;
+  nullsFirst: boolean;
+  textScore?: boolean;
+}
+
+export const parseSort = (spec: SortSpec): SortField[] => {
+  return Object.keys(spec).map((path) => {
+    const direction = spec[path];
+    if (typeof direction === "object" && direction !== null && "$meta" in direction) {
+      if (direction.$meta !== "textScore") {
+        throw new ValidationError(`SORT ERROR: unknown $meta ${direction.$meta} for ${path}`);
+      }
+      return { path, order: -1, nullsFirst: false, textScore: true };
+    }
+    const order = typeof direction === "object" && direction !== null ? direction.order : direction;
+    if (order !== 1 && order !== -1) {
+      throw new ValidationError(`SORT ERROR: direction for ${path} must be 1 or -1`);
+    }
+    const nulls = typeof direction === "object" && direction !== null ? direction.nulls : undefined;
+    if (nulls !== undefined && nulls !== "first" && nulls !== "last") {
+      throw new ValidationError(`SORT ERROR: nulls for ${path} must be "first" or "last"`);
+    }
+    // Missing values sort as the smallest value unless told otherwise
+    return { path, order, nullsFirst: nulls ? nulls === "first" : order === 1 };
+  });
+};
+
+export interface SortPosition {
+  key: any[];
+  id: number;
+}
+
+// Array fields sort by their smallest element ascending and their largest descending
+export const sortKey = (doc: any, spec: SortSpec, context: QueryContext = {}): any[] => {
+  return parseSort(spec).map(({ path, order, textScore }) => {
+    if (textScore) return context.textScores?.get(doc._id) ?? null;
+    const value = getPath(doc, path);
+    if (!Array.isArray(value)) return value ?? null;
+    return value.reduce((best, v) => {
+      if (v === undefined || v === null) return best;
+      if (best === null) return v;
+      return compareValues(v, best) * order < 0 ? v : best;
+    }, null);
+  });
+};
+
+// Compares (sort key, _id) positions; `_id` breaks ties so the order is stable
+export const comparePositions = (spec: SortSpec) => {
+  const fields = parseSort(spec);
+  return (a: SortPosition, b: SortPosition): number => {
+    for (let i = 0; i < fields.length; i++) {
+      const { order, nullsFirst } = fields[i];
+      const valueA = a.key[i] ?? null;
+      const valueB = b.key[i] ?? null;
+      if (valueA === null || valueB === null) {
+        if (valueA === valueB) continue;
+        return (valueA === null) === nullsFirst ? -1 : 1;
+      }
+      const result = compareValues(valueA, valueB);
+      if (result !== 0) return result * order;
+    }
+    return a.id - b.id;
+  };
+};
+
+export const compileSort = (spec: SortSpec, context?: QueryContext) => {
+  const compare = comparePositions(spec);
+  return (a: any, b: any): number =>
+    compare({ key: sortKey(a, spec, context), id: a._id }, { key: sortKey(b, spec, context), id: b._id });
+};
@@ -0,0 +1,177 @@
+import { ValidationError } from "./errors.js";
+import { isEqual } from "./utils.js";
+
+export type FieldType = StringConstructor | NumberConstructor | BooleanConstructor | ArrayConstructor | ObjectConstructor | Function;
+
+export interface FieldSchema {
+  type?: FieldType;
+  // Fields are required unless marked otherwise; null counts as missing
+  required?: boolean;
+  // Used when the field is missing; functions are called for a fresh value
+  default?: any;
+  enum?: any[];
+  // Bounds on numbers, or on the length of strings and arrays
+  min?: number;
+  max?: number;
+  // Schema of every element of an array
+  of?: FieldSpec;
+  // Schema of a nested object
+  fields?: ObjectSchema;
+  coerce?: boolean;
+  // Returns true when valid, or false or a reason when not
+  validate?: (value: any, doc: any) => boolean | string;
+}
+
+// A constructor, a field schema, a one-element array for "array of", or the
+// fields of a nested object when none of its keys are field schema keys
+export type FieldSpec = FieldType | FieldSchema | [FieldSpec] | { [field: string]: FieldSpec };
+
+// Field names mapped to specs, or the original list of [name, spec] pairs
+export type ObjectSchema = { [field: string]: FieldSpec } | [string, FieldSpec][];
+
+export interface SchemaViolation {
+  path: string;
+  reason: string;
+}
+
+export interface SchemaOptions {
+  // Convert strings to numbers and booleans, and scalars to strings, where the type asks for it
+  coerce?: boolean;
+}
+
+const fieldSchemaKeys = new Set(["type", "required", "default", "enum", "min", "max", "of", "fields", "coerce", "validate"]);
+
+const fieldSchema = (spec: FieldSpec): FieldSchema => {
+  if (typeof spec === "function") return { type: spec };
+  if (Array.isArray(spec)) return { type: Array, of: spec[0] };
+  const keys = Object.keys(spec);
+  const unknown = keys.filter((key) => !fieldSchemaKeys.has(key));
+  if (unknown.length === 0) return spec as FieldSchema;
+  if (unknown.length === keys.length) return { fields: spec as ObjectSchema };
+  // Mixing both would silently skip either the nested fields or the spec
+  throw new ValidationError(`RESOURCE SCHEMA ERROR: unknown field schema keys ${unknown.join(", ")}; put nested fields under "fields"`);
+};
+
+const entries = (schema: ObjectSchema): [string, FieldSpec][] => (Array.isArray(schema) ? schema : Object.entries(schema));
+
+const isPlainObject = (value: any) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const matchesType = (type: FieldType, value: any): boolean => {
+  if (type === Array) return Array.isArray(value);
+  if (type === Object) return isPlainObject(value);
+  return value.constructor === type;
+};
+
+const coerce = (type: FieldType, value: any): any => {
+  if (type === Number && typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  if (type === Boolean && (value === "true" || value === "false")) return value === "true";
+  if (type === String && (typeof value === "number" || typeof value === "boolean")) return String(value);
+  return value;
+};
+
+type Check = { doc: any; options: SchemaOptions; errors: SchemaViolation[] };
+
+// Checks one value against its spec, returning it with defaults and coercion applied
+const checkField = (spec: FieldSpec, value: any, path: string, check: Check): any => {
+  const field = fieldSchema(spec);
+  const type = field.type ?? (field.fields ? Object : field.of ? Array : undefined);
+  const { errors } = check;
+
+  if (value === undefined || value === null) {
+    if (field.default !== undefined) {
+      return typeof field.default === "function" ? field.default() : structuredClone(field.default);
+    }
+    if (field.required !== false) errors.push({ path, reason: "is required" });
+    return value;
+  }
+
+  if (type && (field.coerce ?? check.options.coerce)) value = coerce(type, value);
+  if (type && !matchesType(type, value)) {
+    errors.push({ path, reason: `must be of type ${type.name}` });
+    return value;
+  }
+
+  if (field.enum && !field.enum.some((option) => isEqual(option, value))) {
+    errors.push({ path, reason: `must be one of ${field.enum.map((option) => JSON.stringify(option)).join(", ")}` });
+  }
+
+  const size = typeof value === "number" ? value : typeof value === "string" || Array.isArray(value) ? value.length : undefined;
+  if (size !== undefined) {
+    const measure = typeof value === "number" ? "must be" : "must have a length of";
+    if (field.min !== undefined && size < field.min) errors.push({ path, reason: `${measure} at least ${field.min}` });
+    if (field.max !== undefined && size > field.max) errors.push({ path, reason: `${measure} at most ${field.max}` });
+  }
+
+  if (field.of && Array.isArray(value)) {
+    value = value.map((element, i) => checkField(field.of!, element, `${path}.${i}`, check));
+  }
+  if (field.fields && isPlainObject(value)) {
+    value = checkObject(field.fields, value, `${path}.`, check);
+  }
+
+  if (field.validate) {
+    const result = field.validate(value, check.doc);
+    if (result !== true) errors.push({ path, reason: typeof result === "string" ? result : "failed validation" });
+  }
+  return value;
+};
+
+// Fields missing from the schema are kept as they are
+const checkObject = (schema: ObjectSchema, obj: any, prefix: string, check: Check) => {
+  const result = { ...obj };
+  for (const [name, spec] of entries(schema)) {
+    const value = checkField(spec, obj[name], `${prefix}${name}`, check);
+    if (value !== undefined) result[name] = value;
+  }
+  return result;
+};
+
+export const validateSchema = (schema: ObjectSchema, doc: any, options: SchemaOptions = {}) => {
+  const check: Check = { doc, options, errors: [] };
+  const value = checkObject(schema, doc, "", check);
+  return { value, errors: check.errors };
+};
+
+// Spec of a dotted path, walking nested objects and array elements
+const specAt = (schema: ObjectSchema, path: string): FieldSpec | undefined => {
+  let spec: FieldSpec | undefined = { fields: schema };
+  for (const segment of path.split(".")) {
+    const field: FieldSchema = fieldSchema(spec!);
+    if (field.of && /^\d+$/.test(segment)) {
+      spec = field.of;
+    } else {
+      spec = field.fields && entries(field.fields).find(([name]) => name === segment)?.[1];
+    }
+    if (!spec) return undefined;
+  }
+  return spec;
+};
+
+const violationError = (errors: SchemaViolation[]) =>
+  new ValidationError(`RESOURCE VALIDATION ERROR: ${errors.map(({ path, reason }) => `${path} ${reason}`).join("; ")}`, errors);
+
+// Validates a whole document, throwing every violation at once
+export const parseDocument = (schema: ObjectSchema, doc: any, options: SchemaOptions = {}) => {
+  const { value, errors } = validateSchema(schema, doc, options);
+  if (errors.length > 0) throw violationError(errors);
+  return value;
+};
+
+// Validates the paths an update document sets or removes, leaving the rest of the document alone
+export const parseUpdate = (schema: ObjectSchema, update: any, options: SchemaOptions = {}) => {
+  const check: Check = { doc: update, options, errors: [] };
+  const result = { ...update };
+  if (update.$set) {
+    result.$set = { ...update.$set };
+    for (const path in update.$set) {
+      const spec = specAt(schema, path);
+      if (spec) result.$set[path] = checkField(spec, update.$set[path], path, check);
+    }
+  }
+  for (const path in update.$unset || {}) {
+    const spec = specAt(schema, path);
+    if (spec && fieldSchema(spec).required !== false) check.errors.push({ path, reason: "is required" });
+  }
+  if (check.errors.length > 0) throw violationError(check.errors);
+  return result;
+};
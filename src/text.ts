@@ -0,0 +1,121 @@
+import { ValidationError } from "./errors.js";
+
+export interface TextIndexOptions {
+  stemming?: boolean;
+  stopWords?: boolean | string[];
+}
+
+export interface TextIndex {
+  stemming: boolean;
+  stopWords: string[];
+  // term -> _id -> occurrences of the term in the document
+  terms: { [term: string]: { [id: string]: number } };
+  // _id -> number of terms indexed for the document
+  lengths: { [id: string]: number };
+}
+
+export interface TextSearch {
+  $search: string;
+  $field?: string;
+}
+
+export const DEFAULT_STOP_WORDS = [
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "were",
+  "will", "with",
+];
+
+export const createTextIndex = (options: TextIndexOptions = {}): TextIndex => {
+  const { stemming = false, stopWords = false } = options;
+  if (stopWords !== true && stopWords !== false && !Array.isArray(stopWords)) {
+    throw new ValidationError("INDEX ERROR: stopWords must be a boolean or an array of words");
+  }
+  return {
+    stemming: Boolean(stemming),
+    stopWords: stopWords === true ? DEFAULT_STOP_WORDS : stopWords === false ? [] : stopWords.map((w) => w.toLowerCase()),
+    terms: {},
+    lengths: {},
+  };
+};
+
+// Light English stemmer: folds plurals and -ing/-ed endings so "running",
+// "runs" and "run" share a term. Stems keep at least three letters.
+const stem = (word: string): string => {
+  if (word.length <= 3) return word;
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("ies") && word.length > 4) return word.slice(0, -3) + "y";
+  for (const suffix of ["ing", "ed"]) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      const base = word.slice(0, -suffix.length);
+      // runn -> run, stopp -> stop
+      const last = base[base.length - 1];
+      return last === base[base.length - 2] && !"lsz".includes(last) ? base.slice(0, -1) : base;
+    }
+  }
+  if (word.endsWith("s") && !/[sui]s$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const tokenize = (index: TextIndex, text: string): string[] => {
+  return words(text)
+    .filter((word) => !index.stopWords.includes(word))
+    .map((word) => (index.stemming ? stem(word) : word));
+};
+
+// Strings held by a field, including those inside arrays
+const texts = (value: any): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(texts);
+  return [];
+};
+
+export const addToTextIndex = (index: TextIndex, value: any, id: number) => {
+  const tokens = texts(value).flatMap((text) => tokenize(index, text));
+  if (tokens.length === 0) return;
+  for (const token of tokens) {
+    if (!index.terms[token]) index.terms[token] = {};
+    index.terms[token][id] = (index.terms[token][id] || 0) + 1;
+  }
+  index.lengths[id] = tokens.length;
+};
+
+export const removeFromTextIndex = (index: TextIndex, value: any, id: number) => {
+  for (const token of new Set(texts(value).flatMap((text) => tokenize(index, text)))) {
+    const postings = index.terms[token];
+    if (!postings) continue;
+    delete postings[id];
+    if (Object.keys(postings).length === 0) delete index.terms[token];
+  }
+  delete index.lengths[id];
+};
+
+// Scores documents holding any of the search terms with tf-idf. A term ending
+// in `*` matches every indexed term starting with it.
+export const searchText = (index: TextIndex, search: string, scores = new Map<number, number>()) => {
+  const documents = Object.keys(index.lengths).length;
+  const terms = new Set<string>();
+  for (const part of search.split(/\s+/)) {
+    if (part.endsWith("*")) {
+      // Prefixes are matched as typed, before stemming
+      for (const prefix of words(part)) {
+        for (const term in index.terms) if (term.startsWith(prefix)) terms.add(term);
+      }
+    } else {
+      tokenize(index, part).forEach((term) => terms.add(term));
+    }
+  }
+
+  for (const term of terms) {
+    const postings = index.terms[term];
+    if (!postings) continue;
+    const ids = Object.keys(postings);
+    const idf = Math.log(1 + documents / ids.length);
+    for (const id of ids) {
+      const score = (postings[id] / index.lengths[id]) * idf;
+      scores.set(Number(id), (scores.get(Number(id)) || 0) + score);
+    }
+  }
+  return scores;
+};
@@ -0,0 +1,131 @@
+import type { Instructions, Populate, Page, Explain, UpsertResult, BulkResult, AggregateInstructions, IndexInstructions } from "./index.js";
+import type { IndexDefinition } from "./indexes.js";
+import type { JsonSchema } from "./jsonschema.js";
+import type { SortSpec } from "./query.js";
+import type { TextSearch } from "./text.js";
+import type { UpdateOperators } from "./update.js";
+
+// Collection names mapped to the type of the documents they hold. Without a
+// schema every collection holds `any`.
+export type Schema = { [collection: string]: any };
+
+export type CollectionName<S extends Schema> = keyof S & string;
+
+// Documents come back with the `_id` given to them on insert
+export type WithId<T> = T & { _id: number };
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Array fields match on their elements as well as on the whole array
+type Element<V> = V extends readonly (infer E)[] ? E : V;
+type Scalar<V> = NonNullable<Element<V>>;
+
+// Dotted paths into nested fields are accepted but not checked
+type NestedPath = `${string}.${string}`;
+
+export interface Operators<V> {
+  $eq?: V | Element<V> | null;
+  $ne?: V | Element<V> | null;
+  $gt?: Scalar<V>;
+  $gte?: Scalar<V>;
+  $lt?: Scalar<V>;
+  $lte?: Scalar<V>;
+  $in?: (V | Element<V> | null)[];
+  $nin?: (V | Element<V> | null)[];
+  $regex?: Scalar<V> extends string ? string : never;
+  $not?: Operators<V>;
+  $exists?: boolean;
+  $size?: NonNullable<V> extends readonly any[] ? number : never;
+  $all?: NonNullable<V> extends readonly any[] ? Scalar<V>[] : never;
+  $elemMatch?: NonNullable<V> extends readonly any[] ? (Scalar<V> extends object ? Filter<Scalar<V>> : Operators<Scalar<V>>) : never;
+}
+
+export type Condition<V> = V | Element<V> | null | Operators<V>;
+
+interface LogicalFilter<T> {
+  $and?: Filter<T>[];
+  $or?: Filter<T>[];
+  $nor?: Filter<T>[];
+  $text?: TextSearch;
+}
+
+export type Filter<T> = IsAny<T> extends true
+  ? { [key: string]: any }
+  : { [K in keyof T & string]?: Condition<T[K]> } & { _id?: Condition<number> } & { [path: NestedPath]: any } & LogicalFilter<T>;
+
+// A populated field holds the referenced document, or keeps its value when
+// nothing matched
+export type Populated<S extends Schema, T, P extends readonly Populate[]> = IsAny<T> extends true
+  ? any
+  : [P[number]] extends [never]
+    ? T
+    : Omit<T, P[number]["field"]> & {
+        [R in P[number] as R["field"]]: WithId<S[R["collection"]]> | (R["field"] extends keyof T ? T[R["field"]] : never);
+      };
+
+type Found<S extends Schema, C extends CollectionName<S>, P extends readonly Populate[]> = Populated<S, WithId<S[C]>, P>;
+
+type Partition<T> = string | ((data: T) => string);
+
+// Instructions for a collection of the schema, typed by its documents
+export interface Query<S extends Schema, C extends CollectionName<S>, P extends readonly Populate<CollectionName<S>>[] = []>
+  extends Omit<Instructions, "collection" | "index" | "data" | "callback" | "filter" | "sort" | "populate"> {
+  collection?: C;
+  index?: Partition<S[C]> | { current: string; new: Partition<S[C]> };
+  callback?: (item: WithId<S[C]>) => boolean;
+  filter?: Filter<S[C]>;
+  sort?: ((a: WithId<S[C]>, b: WithId<S[C]>) => number) | SortSpec;
+  populate?: P;
+}
+
+type Projection = { [path: string]: 0 | 1 | boolean };
+
+type PopulateList<S extends Schema> = readonly Populate<CollectionName<S>>[];
+
+export interface Transaction<S extends Schema = Schema> {
+  create: <C extends CollectionName<S>>(instructions: Query<S, C> & { data: S[C] }) => Promise<WithId<S[C]>>;
+  update: {
+    <C extends CollectionName<S>>(instructions: Query<S, C> & { upsert: true; data: S[C] | UpdateOperators }): Promise<UpsertResult & { document: WithId<S[C]> }>;
+    <C extends CollectionName<S>>(instructions: Query<S, C> & { data: S[C] | UpdateOperators }): Promise<WithId<S[C]>>;
+  };
+  destroy: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<WithId<S[C]>>;
+  updateMany: <C extends CollectionName<S>>(instructions: Query<S, C> & { data: IsAny<S[C]> extends true ? any : UpdateOperators }) => Promise<BulkResult>;
+  destroyMany: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<BulkResult>;
+  restore: <C extends CollectionName<S>>(instructions: Query<S, C> & { _id: number }) => Promise<WithId<S[C]>>;
+  purge: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<BulkResult>;
+  purgeExpired: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<BulkResult>;
+  find: {
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { explain: true }): Promise<Explain>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { projection: Projection }): Promise<Partial<Found<S, C, P>> | undefined>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P>): Promise<Found<S, C, P> | undefined>;
+  };
+  findMany: {
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { explain: true }): Promise<Explain>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { projection: Projection }): Promise<Partial<Found<S, C, P>>[]>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P>): Promise<Found<S, C, P>[]>;
+  };
+  findPage: {
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { projection: Projection }): Promise<Page<Partial<Found<S, C, P>>>>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P>): Promise<Page<Found<S, C, P>>>;
+  };
+  iterate: {
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P> & { projection: Projection }): AsyncIterable<Partial<Found<S, C, P>>>;
+    <C extends CollectionName<S>, const P extends PopulateList<S> = []>(instructions: Query<S, C, P>): AsyncIterable<Found<S, C, P>>;
+  };
+  createMany: <C extends CollectionName<S>>(instructions: Query<S, C> & { data: S[C][] }) => Promise<WithId<S[C]>[]>;
+  dropCollection: (instructions: { collection?: CollectionName<S> }) => Promise<void>;
+  dropIndex: (instructions: { collection?: CollectionName<S>; index: string }) => Promise<void>;
+  rewriteCollection: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<void>;
+  ensureIndex: (instructions: IndexInstructions & { collection: CollectionName<S> }) => Promise<void>;
+  setSchema: (instructions: { collection: CollectionName<S>; schema: JsonSchema | null }) => Promise<void>;
+  getSchema: (instructions: { collection: CollectionName<S> }) => Promise<JsonSchema | undefined>;
+  listIndexes: (instructions: { collection: CollectionName<S> }) => Promise<(IndexDefinition & { name: string })[]>;
+  dropSecondaryIndex: (instructions: IndexInstructions & { collection: CollectionName<S> }) => Promise<void>;
+  rebuildIndex: (instructions: IndexInstructions & { collection: CollectionName<S> }) => Promise<void>;
+  aggregate: (instructions: AggregateInstructions & { collection?: CollectionName<S> }) => Promise<any[]>;
+  count: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<number>;
+  distinct: <C extends CollectionName<S>, F extends (keyof S[C] & string) | NestedPath>(
+    instructions: Query<S, C> & { field: F }
+  ) => Promise<(F extends keyof S[C] ? Scalar<S[C][F]> : any)[]>;
+  exists: <C extends CollectionName<S>>(instructions: Query<S, C>) => Promise<boolean>;
+}
@@ -0,0 +1,168 @@
+import { ValidationError } from "./errors.js";
+import { matchesCondition, matchesFilter } from "./query.js";
+import { isEqual, setPath } from "./utils.js";
+
+export interface UpdateOperators {
+  $set?: { [path: string]: any };
+  $unset?: { [path: string]: any };
+  $inc?: { [path: string]: number };
+  $mul?: { [path: string]: number };
+  $push?: { [path: string]: any };
+  $pull?: { [path: string]: any };
+  $addToSet?: { [path: string]: any };
+  $rename?: { [path: string]: string };
+}
+
+// An update document uses operators only; plain data replaces the document
+export const isUpdateDocument = (data: any): data is UpdateOperators => {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return false;
+  const keys = Object.keys(data);
+  const operators = keys.filter((key) => key.startsWith("$"));
+  if (operators.length > 0 && operators.length !== keys.length) {
+    throw new ValidationError("UPDATE ERROR: cannot mix update operators and plain fields");
+  }
+  return operators.length > 0;
+};
+
+// Reads a dotted path without fanning out over arrays, unlike getPath
+const readPath = (doc: any, path: string): any => {
+  let current = doc;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = current[segment];
+  }
+  return current;
+};
+
+const unsetPath = (doc: any, path: string) => {
+  const segments = path.split(".");
+  const parent = readPath(doc, segments.slice(0, -1).join("."));
+  const target = segments.length === 1 ? doc : parent;
+  if (target === null || typeof target !== "object") return;
+  if (Array.isArray(target)) {
+    // Like MongoDB, unsetting an array position leaves null behind
+    const i = Number(segments[segments.length - 1]);
+    if (i < target.length) target[i] = null;
+    return;
+  }
+  delete target[segments[segments.length - 1]];
+};
+
+const numberAt = (doc: any, path: string, operator: string, fallback: number): number => {
+  const current = readPath(doc, path);
+  if (current === undefined) return fallback;
+  if (typeof current !== "number") {
+    throw new ValidationError(`UPDATE ERROR: ${operator} needs a number at ${path}`);
+  }
+  return current;
+};
+
+const arrayAt = (doc: any, path: string, operator: string): any[] => {
+  const current = readPath(doc, path);
+  if (current === undefined) {
+    const created: any[] = [];
+    setPath(doc, path, created);
+    return created;
+  }
+  if (!Array.isArray(current)) {
+    throw new ValidationError(`UPDATE ERROR: ${operator} needs an array at ${path}`);
+  }
+  return current;
+};
+
+// { $each: [...] } adds several values, anything else adds one
+const eachValue = (value: any): any[] => {
+  if (typeof value === "object" && value !== null && !Array.isArray(value) && "$each" in value) {
+    if (!Array.isArray(value.$each)) throw new ValidationError("UPDATE ERROR: $each expects an array");
+    return value.$each;
+  }
+  return [value];
+};
+
+const pullMatches = (element: any, condition: any): boolean => {
+  const isObject = typeof condition === "object" && condition !== null && !Array.isArray(condition);
+  if (isObject && !Object.keys(condition).every((key) => key.startsWith("$"))) {
+    // A plain object is a filter over the array's documents
+    return typeof element === "object" && element !== null && matchesFilter(element, condition);
+  }
+  return isObject ? matchesCondition(element, condition) : isEqual(element, condition);
+};
+
+// Applies update operators to a copy of `doc`; `_id` can never be changed
+export const applyUpdate = (doc: any, update: UpdateOperators): any => {
+  const result = structuredClone(doc);
+  for (const operator in update) {
+    const fields = (update as any)[operator];
+    if (typeof fields !== "object" || fields === null || Array.isArray(fields)) {
+      throw new ValidationError(`UPDATE ERROR: ${operator} expects an object of paths`);
+    }
+    for (const path in fields) {
+      const value = fields[path];
+      if (path === "_id" || path.startsWith("_id.") || (operator === "$rename" && value === "_id")) {
+        throw new ValidationError("UPDATE ERROR: _id cannot be modified");
+      }
+      switch (operator) {
+        case "$set":
+          setPath(result, path, value);
+          break;
+        case "$unset":
+          unsetPath(result, path);
+          break;
+        case "$inc":
+          if (typeof value !== "number") throw new ValidationError(`UPDATE ERROR: $inc expects a number for ${path}`);
+          setPath(result, path, numberAt(result, path, operator, 0) + value);
+          break;
+        case "$mul":
+          if (typeof value !== "number") throw new ValidationError(`UPDATE ERROR: $mul expects a number for ${path}`);
+          setPath(result, path, numberAt(result, path, operator, 0) * value);
+          break;
+        case "$push":
+          arrayAt(result, path, operator).push(...eachValue(value));
+          break;
+        case "$addToSet": {
+          const array = arrayAt(result, path, operator);
+          for (const v of eachValue(value)) {
+            if (!array.some((element) => isEqual(element, v))) array.push(v);
+          }
+          break;
+        }
+        case "$pull": {
+          const current = readPath(result, path);
+          if (current === undefined) break;
+          if (!Array.isArray(current)) throw new ValidationError(`UPDATE ERROR: $pull needs an array at ${path}`);
+          setPath(result, path, current.filter((element) => !pullMatches(element, value)));
+          break;
+        }
+        case "$rename": {
+          if (typeof value !== "string") throw new ValidationError(`UPDATE ERROR: $rename expects a new path for ${path}`);
+          const current = readPath(result, path);
+          if (current === undefined) break;
+          unsetPath(result, path);
+          setPath(result, value, current);
+          break;
+        }
+        default:
+          throw new ValidationError(`UPDATE ERROR: unknown operator ${operator}`);
+      }
+    }
+  }
+  return result;
+};
+
+// Fields a filter pins to one value (direct values and $eq, including inside
+// $and), used as the starting point of an upserted document
+export const equalityFields = (filter: any, seed: any = {}): any => {
+  for (const key in filter || {}) {
+    const condition = filter[key];
+    if (key === "$and" && Array.isArray(condition)) {
+      condition.forEach((branch) => equalityFields(branch, seed));
+      continue;
+    }
+    if (key.startsWith("$") || key === "_id") continue;
+    const isObject = typeof condition === "object" && condition !== null && !Array.isArray(condition);
+    const isOperators = isObject && Object.keys(condition).some((k) => k.startsWith("$"));
+    if (!isOperators) setPath(seed, key, condition);
+    else if (Object.keys(condition).length === 1 && "$eq" in condition) setPath(seed, key, condition.$eq);
+  }
+  return seed;
+};
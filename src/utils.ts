@@ -21,3 +21,50 @@ export class Mutex {
     }
   }
 }
+
+// Reads a dotted path ("address.city"). When a segment lands on an array and
+// the next segment is not a numeric position, the rest of the path is read from
+// every element and the results are flattened into one array.
+export const getPath = (obj: any, path: string): any => {
+  const segments = path.split(".");
+  let current = obj;
+  for (let i = 0; i < segments.length; i++) {
+    if (current === null || current === undefined) return undefined;
+    const segment = segments[i];
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      const rest = segments.slice(i).join(".");
+      const values = current
+        .map((element) => getPath(element, rest))
+        .filter((value) => value !== undefined);
+      return values.length > 0 ? values.flat() : undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+};
+
+export const isEqual = (a: any, b: any): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((value, i) => isEqual(value, b[i]));
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every((key) => key in b && isEqual(a[key], b[key]));
+};
+
+// Writes a dotted path, creating intermediate objects as needed
+export const setPath = (obj: any, path: string, value: any) => {
+  const segments = path.split(".");
+  let current = obj;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    if (typeof current[segment] !== "object" || current[segment] === null) {
+      current[segment] = {};
+    }
+    current = current[segment];
+  }
+  current[segments[segments.length - 1]] = value;
+};
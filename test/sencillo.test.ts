@@ -1,6 +1,7 @@
 import { SencilloDB, quickTx, createResourceManager, Transaction } from "../src/index.js";
-import { ValidationError } from "../src/errors.js";
+import { ValidationError, UniqueConstraintError, DocumentNotFoundError } from "../src/errors.js";
 import fs from "fs";
+import { once } from "events";
 import path from "path";
 
 const TEST_DB_FILE = "./test_db.json";
@@ -220,6 +221,77 @@ describe("ResourceManager", () => {
 
        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
     });
+
+    test("should report every violation of a richer schema", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        const Order = createResourceManager({
+            db,
+            collection: "orders",
+            coerce: true,
+            schema: {
+                customer: { type: String, min: 2 },
+                status: { type: String, enum: ["open", "paid"], default: "open" },
+                total: { type: Number, min: 0 },
+                note: { type: String, required: false },
+                items: [{ fields: { sku: String, qty: { type: Number, min: 1 } } }],
+                address: { fields: { city: String, zip: { type: String, validate: (zip: string) => /^\d{5}$/.test(zip) || "must be five digits" } } },
+            },
+        });
+
+        await expect(Order.execute("create", {
+            data: { customer: "Ana", total: "12.5", note: null, items: [{ sku: "a", qty: 2 }], address: { city: "Lima", zip: "15001" } },
+        })).resolves.toMatchObject({ _id: 1, status: "open", total: 12.5 });
+
+        const error = await Order.execute("create", {
+            data: { customer: "B", status: "lost", total: -1, items: [{ sku: "a", qty: 0 }, { qty: 1 }], address: { city: "Lima", zip: "1" } },
+        }).catch((e) => e);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.errors).toEqual([
+            { path: "customer", reason: "must have a length of at least 2" },
+            { path: "status", reason: 'must be one of "open", "paid"' },
+            { path: "total", reason: "must be at least 0" },
+            { path: "items.0.qty", reason: "must be at least 1" },
+            { path: "items.1.sku", reason: "is required" },
+            { path: "address.zip", reason: "must be five digits" },
+        ]);
+
+        // Update operators are checked for the paths they touch
+        await expect(Order.execute("update", { _id: 1, data: { $set: { "items.0.qty": "3" } } })).resolves.toMatchObject({ items: [{ sku: "a", qty: 3 }] });
+        const updateError = await Order.execute("update", { _id: 1, data: { $set: { status: "lost" }, $unset: { total: "" } } }).catch((e) => e);
+        expect(updateError.errors.map((e: any) => e.path)).toEqual(["status", "total"]);
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should validate with detached methods", () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const { validate, parse } = createResourceManager({ db, collection: "users", coerce: true, schema: { age: Number } });
+        expect(validate({ age: 3 })).toBe(true);
+        expect(() => validate({})).toThrow(ValidationError);
+        expect(parse({ age: "4" })).toEqual({ age: 4 });
+    });
+
+    test("should check nested objects written without fields", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        const User = createResourceManager({ db, collection: "users", schema: { name: String, address: { city: String, zip: { type: String, min: 5 } } } });
+        const error = await User.execute("create", { data: { name: "Ana", address: { zip: "1" } } }).catch((e) => e);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.errors).toEqual([
+            { path: "address.city", reason: "is required" },
+            { path: "address.zip", reason: "must have a length of at least 5" },
+        ]);
+        await expect(User.execute("update", { _id: 1, data: { $set: { "address.city": 1 } } })).rejects.toBeInstanceOf(ValidationError);
+
+        // A spec mixing field schema keys with anything else is refused rather than half checked
+        const Mixed = createResourceManager({ db, collection: "mixed", schema: { address: { type: Object, city: String } } });
+        await expect(Mixed.execute("create", { data: { address: { city: "Lima" } } })).rejects.toThrow("unknown field schema keys city");
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
 });
 
 describe("Concurrency", () => {
@@ -303,110 +375,2224 @@ describe("Advanced Query Operators", () => {
 
         if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
     });
-});
 
-describe("Population", () => {
-    test("should populate related documents", async () => {
+    test("should combine conditions with logical operators", async () => {
         if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
         const db = new SencilloDB({ file: TEST_DB_FILE });
 
         await db.transaction(async (tx: Transaction) => {
-            // Create users
-            const user1 = await tx.create({ collection: "users", data: { name: "Alice" } });
-            const user2 = await tx.create({ collection: "users", data: { name: "Bob" } });
-
-            // Create posts
-            await tx.create({ collection: "posts", data: { title: "Post 1", authorId: user1._id } });
-            await tx.create({ collection: "posts", data: { title: "Post 2", authorId: user2._id } });
+            await tx.createMany({
+                collection: "tickets",
+                data: [
+                    { title: "A", status: "open", archived: false, priority: 1 },
+                    { title: "B", status: "pending", archived: false, priority: 5 },
+                    { title: "C", status: "open", archived: true, priority: 3 },
+                    { title: "D", status: "closed", archived: false, priority: 2 }
+                ]
+            });
         });
 
-        const posts = await db.transaction(async (tx: Transaction) => {
-            return await tx.findMany({
-                collection: "posts",
-                callback: () => true,
-                populate: [{ field: "authorId", collection: "users" }]
+        const results = await db.transaction(async (tx: Transaction) => {
+            const active = await tx.findMany({
+                collection: "tickets",
+                filter: {
+                    $or: [{ status: "open" }, { status: "pending" }],
+                    $nor: [{ archived: true }]
+                }
             });
+            const nested = await tx.findMany({
+                collection: "tickets",
+                filter: {
+                    $and: [
+                        { priority: { $not: { $gt: 2 } } },
+                        { $or: [{ status: "closed" }, { title: "A" }] }
+                    ]
+                }
+            });
+            const first = await tx.find({
+                collection: "tickets",
+                filter: { status: { $not: { $in: ["open", "closed"] } } }
+            });
+            return { active, nested, first };
         });
 
-        expect(posts).toHaveLength(2);
-        expect(posts[0].authorId).toMatchObject({ name: "Alice" });
-        expect(posts[1].authorId).toMatchObject({ name: "Bob" });
+        expect(results.active.map((t: any) => t.title)).toEqual(["A", "B"]);
+        expect(results.nested.map((t: any) => t.title)).toEqual(["A", "D"]);
+        expect(results.first).toMatchObject({ title: "B" });
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "tickets", filter: { $or: {} } });
+        })).rejects.toBeInstanceOf(ValidationError);
 
         if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
     });
 });
 
-describe("Secondary Indexing", () => {
-    test("should maintain and use secondary indexes", async () => {
+describe("Nested Paths and Array Operators", () => {
+    test("should filter on dotted paths and array fields", async () => {
         if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
         const db = new SencilloDB({ file: TEST_DB_FILE });
 
         await db.transaction(async (tx: Transaction) => {
-            await tx.ensureIndex({ collection: "users", field: "email" });
-            
             await tx.createMany({
-                collection: "users",
+                collection: "people",
                 data: [
-                    { name: "Alice", email: "alice@example.com", age: 30 },
-                    { name: "Bob", email: "bob@example.com", age: 25 },
-                    { name: "Charlie", email: "charlie@example.com", age: 35 }
+                    { name: "Ana", address: { city: "Madrid" }, tags: ["admin", "dev"], scores: [{ game: "chess", points: 9 }] },
+                    { name: "Ben", address: { city: "Lima" }, tags: ["dev"], scores: [{ game: "chess", points: 4 }, { game: "go", points: 8 }] },
+                    { name: "Cam", tags: [] }
                 ]
             });
         });
 
-        // Find using index (optimization should kick in)
-        const alice = await db.transaction(async (tx: Transaction) => {
-            return await tx.find({
+        const names = (docs: any[]) => docs.map((d: any) => d.name);
+
+        await db.transaction(async (tx: Transaction) => {
+            expect(names(await tx.findMany({ collection: "people", filter: { "address.city": "Lima" } }))).toEqual(["Ben"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { address: { city: "Madrid" } } }))).toEqual(["Ana"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { tags: "dev" } }))).toEqual(["Ana", "Ben"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { tags: { $all: ["dev", "admin"] } } }))).toEqual(["Ana"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { tags: { $size: 0 } } }))).toEqual(["Cam"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { address: { $exists: false } } }))).toEqual(["Cam"]);
+            expect(names(await tx.findMany({ collection: "people", filter: { "scores.points": { $gt: 7 } } }))).toEqual(["Ana", "Ben"]);
+            expect(names(await tx.findMany({
+                collection: "people",
+                filter: { scores: { $elemMatch: { game: "chess", points: { $gt: 5 } } } }
+            }))).toEqual(["Ana"]);
+        });
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should index dotted fields", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "people", data: { name: "Ana", address: { city: "Madrid" } } });
+            await tx.ensureIndex({ collection: "people", field: "address.city" });
+            await tx.create({ collection: "people", data: { name: "Ben", address: { city: "Lima" } } });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.people.__secondary_indexes["address.city"]).toEqual({ Madrid: [1], Lima: [2] });
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "people", _id: 2, data: { name: "Ben", address: { city: "Quito" } } });
+        });
+
+        const ben = await db.transaction(async (tx: Transaction) => {
+            return await tx.find({ collection: "people", filter: { "address.city": "Quito" } });
+        });
+        expect(ben).toMatchObject({ name: "Ben" });
+
+        const updated = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(updated.people.__secondary_indexes["address.city"]).toEqual({ Madrid: [1], Lima: [], Quito: [2] });
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+});
+
+describe("Update Operators", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should modify only the given paths", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const updated = await db.transaction(async (tx: Transaction) => {
+            await tx.create({
                 collection: "users",
-                filter: { email: "alice@example.com" }
+                data: { name: "Ana", visits: 2, score: 3, tags: ["a", "b", "a"], nick: "ani", profile: { city: "Lima" } },
+            });
+            return await tx.update({
+                collection: "users",
+                _id: 1,
+                data: {
+                    $set: { "profile.zip": "15001" },
+                    $unset: { "profile.city": "" },
+                    $inc: { visits: 1, "stats.logins": 5 },
+                    $mul: { score: 2 },
+                    $push: { log: { $each: ["x", "y"] } },
+                    $pull: { tags: "a" },
+                    $addToSet: { roles: "admin" },
+                    $rename: { nick: "alias" },
+                },
             });
         });
-        expect(alice).toMatchObject({ name: "Alice" });
+        expect(updated).toEqual({
+            _id: 1,
+            name: "Ana",
+            visits: 3,
+            score: 6,
+            tags: ["b"],
+            alias: "ani",
+            profile: { zip: "15001" },
+            stats: { logins: 5 },
+            log: ["x", "y"],
+            roles: ["admin"],
+        });
 
-        // Update email (should update index)
         await db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 1, data: { $addToSet: { roles: { $each: ["admin", "dev"] } }, $pull: { log: { $in: ["x"] } } } });
+            const user = await tx.find({ collection: "users", filter: { name: "Ana" } });
+            expect(user.roles).toEqual(["admin", "dev"]);
+            expect(user.log).toEqual(["y"]);
+        });
+
+        for (const data of [{ $inc: { name: 1 } }, { $set: { _id: 5 } }, { $set: { a: 1 }, b: 2 }, { $unknown: { a: 1 } }]) {
+            await expect(db.transaction(async (tx: Transaction) => {
+                await tx.update({ collection: "users", _id: 1, data });
+            })).rejects.toBeInstanceOf(ValidationError);
+        }
+    });
+
+    test("should reindex and repartition the updated document", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "tasks", field: "status" });
+            await tx.create({ collection: "tasks", index: (t: any) => t.status, data: { title: "Ship", status: "open" } });
             await tx.update({
-                collection: "users",
-                _id: alice._id,
-                data: { ...alice, email: "alice_new@example.com" }
+                collection: "tasks",
+                _id: 1,
+                index: { current: "open", new: (t: any) => t.status },
+                data: { $set: { status: "done" } },
             });
         });
 
-        // Find with old email (should fail)
-        const oldAlice = await db.transaction(async (tx: Transaction) => {
-            return await tx.find({
-                collection: "users",
-                filter: { email: "alice@example.com" }
-            });
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.findMany({ collection: "tasks", filter: { status: "open" } })).toEqual([]);
+            expect(await tx.findMany({ collection: "tasks", index: "done" })).toEqual([{ _id: 1, title: "Ship", status: "done" }]);
+            expect(await tx.count({ collection: "tasks", filter: { status: "done" } })).toBe(1);
         });
-        expect(oldAlice).toBeUndefined();
+    });
+});
 
-        // Find with new email (should succeed)
-        const newAlice = await db.transaction(async (tx: Transaction) => {
-            return await tx.find({
-                collection: "users",
-                filter: { email: "alice_new@example.com" }
+describe("Upsert", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should insert when nothing matches and update afterwards", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            const bump = () => tx.update({
+                collection: "counters",
+                filter: { name: "visits", "meta.site": "blog" },
+                index: (doc: any) => doc.meta.site,
+                data: { $inc: { value: 1 } },
+                upsert: true,
             });
+
+            const first = await bump();
+            expect(first).toEqual({ document: { _id: 1, name: "visits", meta: { site: "blog" }, value: 1 }, upserted: true });
+            const second = await bump();
+            expect(second).toEqual({ document: { _id: 1, name: "visits", meta: { site: "blog" }, value: 2 }, upserted: false });
+            expect(await tx.findMany({ collection: "counters", index: "blog" })).toHaveLength(1);
+
+            const replaced = await tx.update({ collection: "counters", _id: 1, data: { name: "views" }, upsert: true });
+            expect(replaced).toEqual({ document: { _id: 1, name: "views" }, upserted: false });
+            const created = await tx.update({ collection: "counters", _id: 99, data: { name: "clicks" }, upsert: true });
+            expect(created).toEqual({ document: { _id: 2, name: "clicks" }, upserted: true });
         });
-        expect(newAlice).toMatchObject({ name: "Alice", email: "alice_new@example.com" });
 
-        // Destroy (should remove from index)
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "counters", data: { name: "x" }, upsert: true });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+});
+
+describe("Bulk Writes", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should update and destroy by filter across partitions", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
         await db.transaction(async (tx: Transaction) => {
-            await tx.destroy({
-                collection: "users",
-                _id: newAlice._id
-            });
+            await tx.ensureIndex({ collection: "tasks", field: "status" });
+            await tx.create({ collection: "tasks", index: "A", data: { status: "open", points: 1 } });
+            await tx.create({ collection: "tasks", index: "B", data: { status: "open", points: 2 } });
+            await tx.create({ collection: "tasks", index: "B", data: { status: "done", points: 3 } });
+            await tx.create({ collection: "tasks", index: "C", data: { status: "done", points: 4 } });
         });
 
-        const deletedAlice = await db.transaction(async (tx: Transaction) => {
-            return await tx.find({
-                collection: "users",
-                filter: { email: "alice_new@example.com" }
-            });
+        // Shard C holds no open task, so it must never be read
+        fs.writeFileSync(path.join(TEST_DB_FOLDER, "tasks", "shard_C.json"), "not json");
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.updateMany({ collection: "tasks", filter: { status: "open" }, data: { $set: { status: "closed" }, $inc: { points: 10 } } }))
+                .toEqual({ count: 2, ids: [1, 2] });
+            expect(await tx.destroyMany({ collection: "tasks", index: "B", callback: (t: any) => t.points > 5 }))
+                .toEqual({ count: 1, ids: [2] });
+            expect(await tx.count({ collection: "tasks" })).toBe(3);
+            expect(await tx.count({ collection: "tasks", filter: { status: "closed" } })).toBe(1);
+            expect(await tx.findMany({ collection: "tasks", index: "B" })).toEqual([{ _id: 3, status: "done", points: 3 }]);
         });
-        expect(deletedAlice).toBeUndefined();
 
+        await expect(db2.transaction(async (tx: Transaction) => {
+            await tx.updateMany({ collection: "tasks", filter: {}, data: { status: "x" } });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should replay bulk writes made with callbacks from the AOF", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ age: 10 }, { age: 20 }, { age: 30 }, { age: 40 }] });
+            await tx.updateMany({ collection: "users", callback: (u: any) => u.age >= 20, data: { $set: { adult: true } } });
+            await tx.destroyMany({ collection: "users", callback: (u: any) => u.age === 40 });
+        });
+
+        const replayed = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        const users = await replayed.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "users" });
+        });
+        expect(users).toEqual([
+            { _id: 1, age: 10 },
+            { _id: 2, age: 20, adult: true },
+            { _id: 3, age: 30, adult: true },
+        ]);
+    });
+});
+
+describe("Collection Schemas", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+    const userSchema = {
+        type: "object",
+        required: ["name", "age"],
+        properties: {
+            name: { type: "string", minLength: 1 },
+            age: { type: "integer", minimum: 0 },
+            role: { enum: ["admin", "member"] },
+            contact: { oneOf: [{ $ref: "#/$defs/email" }, { type: "object", required: ["phone"] }] },
+        },
+        additionalProperties: false,
+        $defs: { email: { type: "string", pattern: "^[^@]+@[^@]+$" } },
+    };
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should validate every write against the collection's schema", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.setSchema({ collection: "users", schema: userSchema });
+            await tx.createMany({ collection: "users", data: [{ name: "Ana", age: 30, contact: "ana@x.io" }, { name: "Bo", age: 5 }] });
+        });
+
+        const error = await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { name: "", age: 1.5, role: "owner", contact: "nope", nickname: "x" } });
+        }).catch((e) => e);
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.errors).toEqual([
+            { path: "name", reason: "must have a length of at least 1" },
+            { path: "age", reason: "must be of type integer" },
+            { path: "role", reason: 'must be one of "admin", "member"' },
+            { path: "contact", reason: "must match exactly one schema in oneOf" },
+            { path: "nickname", reason: "is not allowed" },
+        ]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 1, data: { $unset: { age: "" } } });
+        })).rejects.toMatchObject({ errors: [{ path: "age", reason: "is required" }] });
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.updateMany({ collection: "users", filter: {}, data: { $inc: { age: -10 } } });
+        })).rejects.toBeInstanceOf(ValidationError);
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", filter: { name: "Cy" }, upsert: true, data: { $set: { age: 2 } } });
+        })).resolves.toBeUndefined();
+        // Existing documents must satisfy a new schema
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.setSchema({ collection: "users", schema: { ...userSchema, required: ["name", "age", "role"] } });
+        })).rejects.toMatchObject({ errors: [{ path: "role", reason: "is required" }] });
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.setSchema({ collection: "users", schema: { type: "text" } });
+        })).rejects.toBeInstanceOf(ValidationError);
+
+        await db.transaction(async (tx: Transaction) => {
+            expect(await tx.findMany({ collection: "users", projection: { age: 1, _id: 0 } })).toEqual([{ age: 30 }, { age: 5 }, { age: 2 }]);
+            expect(await tx.getSchema({ collection: "users" })).toEqual(userSchema);
+        });
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.users.__schema).toEqual(userSchema);
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.setSchema({ collection: "users", schema: null });
+            await tx.create({ collection: "users", data: { anything: true } });
+            expect(await tx.getSchema({ collection: "users" })).toBeUndefined();
+        });
+    });
+
+    test("should skip invalid writes when replaying the AOF", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.setSchema({ collection: "users", schema: userSchema });
+            await tx.create({ collection: "users", data: { name: "Ana", age: 30 } });
+        });
+        // A line that bypassed validation, for instance written by an older version
+        fs.appendFileSync(AOF_FILE, JSON.stringify({ op: "create", instructions: { collection: "users", data: { name: "Bad" } } }) + "\n");
+
+        const db2 = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.findMany({ collection: "users" })).toEqual([{ _id: 1, name: "Ana", age: 30 }]);
+        });
+    });
+});
+
+describe("Lifecycle Hooks", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+
+    beforeEach(() => {
         if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should transform, abort and observe operations", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const seen: string[] = [];
+
+        db.before("users", "create", (instructions) => ({ ...instructions, data: { ...instructions.data, email: instructions.data.email.toLowerCase() } }));
+        db.before("*", "update", (instructions) => {
+            if (instructions.data?.$set?.role === "owner") throw new ValidationError("owners are assigned by hand");
+        });
+        // Reads only see active users unless asked otherwise
+        db.before("users", "findMany", (instructions) => ({ ...instructions, filter: { active: true, ...instructions.filter } }));
+        db.after("users", "create", (doc) => {
+            // The document is already on disk
+            const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+            seen.push(`created ${content.users.__id_map[doc._id] ? doc.email : "missing"}`);
+        });
+        const stop = db.after("*", "destroy", (doc, { collection }) => { seen.push(`destroyed ${collection} ${doc._id}`); });
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { email: "Ana@X.io", active: true } });
+            await tx.createMany({ collection: "users", data: [{ email: "BO@x.io", active: false }, { email: "cy@x.io", active: true }] });
+            // Nothing is reported before the commit
+            expect(seen).toEqual([]);
+        });
+        expect(seen).toEqual(["created ana@x.io", "created bo@x.io", "created cy@x.io"]);
+
+        const error = await db.transaction(async (tx: Transaction) => {
+            await tx.destroy({ collection: "users", _id: 3 });
+            await tx.update({ collection: "users", _id: 1, data: { $set: { role: "owner" } } });
+        }).catch((e) => e);
+        expect(error.message).toBe("owners are assigned by hand");
+        // The rolled back destroy reports nothing
+        expect(seen).toHaveLength(3);
+
+        await db.transaction(async (tx: Transaction) => {
+            expect((await tx.findMany({ collection: "users" })).map((u: any) => u.email)).toEqual(["ana@x.io", "cy@x.io"]);
+            expect(await tx.findMany({ collection: "users", filter: { active: false } })).toHaveLength(1);
+            await tx.destroy({ collection: "users", _id: 2 });
+        });
+        stop();
+        await db.transaction(async (tx: Transaction) => {
+            await tx.destroy({ collection: "users", _id: 3 });
+        });
+        expect(seen.slice(3)).toEqual(["destroyed users 2"]);
+    });
+
+    test("should log transformed instructions to the AOF", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        let calls = 0;
+        db.before("users", "create", (instructions) => {
+            calls++;
+            return { ...instructions, data: { ...instructions.data, name: instructions.data.name.trim() } };
+        });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { name: "  Ana " } });
+        });
+
+        // Replay does not need the hooks
+        const db2 = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.find({ collection: "users", _id: 1 })).toEqual({ _id: 1, name: "Ana" });
+        });
+        expect(calls).toBe(1);
+        expect(() => db.before("users", "upsert" as any, () => {})).toThrow(ValidationError);
+    });
+
+    test("should run hooks for upserted inserts and bulk writes", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        const created: string[] = [];
+        db.before("users", "create", (instructions) => ({ ...instructions, data: { ...instructions.data, email: instructions.data.email.toLowerCase() } }));
+        db.after("users", "create", (doc) => { created.push(doc.email); });
+        db.before("*", "update", (instructions) => {
+            if (instructions.data?.$set?.role === "owner") throw new ValidationError("owners are assigned by hand");
+        });
+        db.before("*", "destroy", (instructions, { collection }) => {
+            if (collection === "audit") throw new ValidationError("audit entries are permanent");
+        });
+
+        const { document } = await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "audit", data: { msg: "hi" } });
+            return await tx.update({ collection: "users", filter: { name: "Ana" }, data: { $set: { email: "ANA@X.IO" } }, upsert: true });
+        });
+        expect(document).toEqual({ _id: 1, name: "Ana", email: "ana@x.io" });
+        expect(created).toEqual(["ana@x.io"]);
+
+        for (const write of [
+            (tx: Transaction) => tx.updateMany({ collection: "users", filter: {}, data: { $set: { role: "owner" } } }),
+            (tx: Transaction) => tx.destroyMany({ collection: "audit", filter: {} }),
+            (tx: Transaction) => tx.purge({ collection: "audit", filter: {} }),
+        ]) {
+            await expect(db.transaction(write)).rejects.toBeInstanceOf(ValidationError);
+        }
+
+        // Replay repeats the create the upsert turned into
+        const db2 = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.find({ collection: "users", _id: 1 })).toEqual({ _id: 1, name: "Ana", email: "ana@x.io" });
+            expect(await tx.count({ collection: "audit" })).toBe(1);
+        });
+    });
+});
+
+describe("Timestamps", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+
+    // A clock that advances one second per reading
+    const ticking = () => {
+        let time = Date.UTC(2024, 0, 1);
+        return () => new Date((time += 1000));
+    };
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should stamp creates and keep createdAt through updates", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, timestamps: true, clock: ticking() });
+
+        const created = await db.transaction(async (tx: Transaction) => {
+            return await tx.create({ collection: "users", data: { name: "Ana" } });
+        });
+        expect(created.createdAt).toBe("2024-01-01T00:00:01.000Z");
+        expect(created.updatedAt).toBe("2024-01-01T00:00:01.000Z");
+
+        const [replaced, incremented] = await db.transaction(async (tx: Transaction) => {
+            const replaced = await tx.update({ collection: "users", _id: 1, data: { name: "Ana B" } });
+            const incremented = await tx.update({ collection: "users", _id: 1, data: { $inc: { visits: 1 } } });
+            return [replaced, incremented];
+        });
+        expect(replaced).toEqual({ name: "Ana B", createdAt: "2024-01-01T00:00:01.000Z", updatedAt: "2024-01-01T00:00:02.000Z", _id: 1 });
+        expect(incremented.createdAt).toBe("2024-01-01T00:00:01.000Z");
+        expect(incremented.updatedAt).toBe("2024-01-01T00:00:03.000Z");
+
+        const { count } = await db.transaction(async (tx: Transaction) => {
+            return await tx.updateMany({ collection: "users", filter: {}, data: { $set: { createdAt: "forged" } } });
+        });
+        expect(count).toBe(1);
+        const user = await db.transaction(async (tx: Transaction) => tx.find({ collection: "users", _id: 1 }));
+        expect(user.createdAt).toBe("2024-01-01T00:00:01.000Z");
+        expect(user.updatedAt).toBe("2024-01-01T00:00:04.000Z");
+    });
+
+    test("should use per-collection settings and field names", async () => {
+        const db = new SencilloDB({
+            file: TEST_DB_FILE,
+            clock: () => new Date(Date.UTC(2024, 5, 1)),
+            collections: {
+                posts: { timestamps: { createdAt: "created_at", updatedAt: false } },
+                users: { timestamps: true },
+            },
+        });
+
+        const [post, user, log] = await db.transaction(async (tx: Transaction) => [
+            await tx.create({ collection: "posts", data: { title: "Hi" } }),
+            await tx.create({ collection: "users", data: { name: "Ana" } }),
+            await tx.create({ collection: "logs", data: { msg: "hi" } }),
+        ]);
+        expect(post).toEqual({ title: "Hi", created_at: "2024-06-01T00:00:00.000Z", _id: 1 });
+        expect(user.updatedAt).toBe("2024-06-01T00:00:00.000Z");
+        expect(log).toEqual({ msg: "hi", _id: 1 });
+    });
+
+    test("should stamp upserted documents and keep timestamps when rewriting", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, timestamps: true, clock: ticking() });
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { name: "Ana" } });
+            await tx.update({ collection: "users", filter: { name: "Bo" }, data: { $set: { age: 20 } }, upsert: true });
+        });
+        const users = await db.transaction(async (tx: Transaction) => {
+            await tx.rewriteCollection({ collection: "users" });
+            return await tx.findMany({ collection: "users" });
+        });
+        expect(users.map((u: any) => [u.name, u.createdAt])).toEqual([
+            ["Ana", "2024-01-01T00:00:01.000Z"],
+            ["Bo", "2024-01-01T00:00:02.000Z"],
+        ]);
+    });
+
+    test("should replay the same timestamps from the AOF", async () => {
+        let db = new SencilloDB({ file: TEST_DB_FILE, aof: true, timestamps: true, clock: ticking() });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { name: "Ana" } });
+            await tx.update({ collection: "users", _id: 1, data: { $set: { age: 30 } } });
+        });
+
+        db = new SencilloDB({ file: TEST_DB_FILE, aof: true, timestamps: true, clock: () => new Date(0) });
+        const user = await db.transaction(async (tx: Transaction) => tx.find({ collection: "users", _id: 1 }));
+        expect(user).toMatchObject({ createdAt: "2024-01-01T00:00:01.000Z", updatedAt: "2024-01-01T00:00:02.000Z" });
+    });
+});
+
+describe("Soft Delete", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+    const config = () => ({
+        file: TEST_DB_FILE,
+        clock: () => new Date(Date.UTC(2024, 0, 1)),
+        collections: { users: { softDelete: true } },
+    });
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should hide soft-deleted documents from reads", async () => {
+        const db = new SencilloDB(config());
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "email" });
+            await tx.createMany({ collection: "users", data: [{ email: "a@x.io", age: 30 }, { email: "b@x.io", age: 20 }] });
+        });
+
+        const deleted = await db.transaction(async (tx: Transaction) => tx.destroy({ collection: "users", _id: 1 }));
+        expect(deleted).toEqual({ email: "a@x.io", age: 30, _id: 1, deletedAt: "2024-01-01T00:00:00.000Z" });
+
+        const result = await db.transaction(async (tx: Transaction) => ({
+            byIndex: await tx.find({ collection: "users", filter: { email: "a@x.io" } }),
+            all: await tx.findMany({ collection: "users" }),
+            withDeleted: await tx.findMany({ collection: "users", withDeleted: true }),
+            count: await tx.count({ collection: "users" }),
+            countAll: await tx.count({ collection: "users", withDeleted: true }),
+            exists: await tx.exists({ collection: "users", _id: 1 }),
+            ages: await tx.distinct({ collection: "users", field: "age" }),
+            grouped: await tx.aggregate({ collection: "users", pipeline: [{ $count: "n" }] }),
+        }));
+        expect(result.byIndex).toBeUndefined();
+        expect(result.all.map((u: any) => u._id)).toEqual([2]);
+        expect(result.withDeleted.map((u: any) => u._id)).toEqual([1, 2]);
+        expect(result.count).toBe(1);
+        expect(result.countAll).toBe(2);
+        expect(result.exists).toBe(false);
+        expect(result.ages).toEqual([20]);
+        expect(result.grouped).toEqual([{ n: 1 }]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 1, data: { $set: { age: 31 } } });
+        })).rejects.toThrow(DocumentNotFoundError);
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.destroy({ collection: "users", _id: 1 });
+        })).rejects.toThrow(DocumentNotFoundError);
+    });
+
+    test("should restore and purge while keeping stats correct", async () => {
+        const db = new SencilloDB(config());
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }, { name: "Cy" }] });
+            await tx.create({ collection: "logs", data: { msg: "hi" } });
+        });
+
+        const { count } = await db.transaction(async (tx: Transaction) => tx.destroyMany({ collection: "users", filter: { name: { $ne: "Cy" } } }));
+        expect(count).toBe(2);
+        let stats = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).users.__stats;
+        expect(stats).toEqual({ inserted: 3, total: 3, deleted: 2 });
+
+        const restored = await db.transaction(async (tx: Transaction) => tx.restore({ collection: "users", _id: 2 }));
+        expect(restored).toEqual({ name: "Bo", _id: 2 });
+        const purged = await db.transaction(async (tx: Transaction) => tx.purge({ collection: "users" }));
+        expect(purged).toEqual({ count: 1, ids: [1] });
+
+        stats = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).users.__stats;
+        expect(stats).toEqual({ inserted: 3, total: 2, deleted: 0 });
+        const names = await db.transaction(async (tx: Transaction) => {
+            const users = await tx.findMany({ collection: "users", withDeleted: true });
+            return users.map((u: any) => u.name);
+        });
+        expect(names).toEqual(["Bo", "Cy"]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.restore({ collection: "users", _id: 3 });
+        })).rejects.toThrow(DocumentNotFoundError);
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.purge({ collection: "logs" });
+        })).rejects.toThrow(ValidationError);
+    });
+
+    test("should replay soft deletes, restores and purges from the AOF", async () => {
+        let db = new SencilloDB({ ...config(), aof: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }, { name: "Cy" }] });
+            await tx.destroy({ collection: "users", _id: 1 });
+            await tx.destroyMany({ collection: "users", filter: { name: { $in: ["Bo", "Cy"] } } });
+            await tx.restore({ collection: "users", _id: 3 });
+            await tx.purge({ collection: "users", _id: 1 });
+        });
+
+        db = new SencilloDB({ ...config(), aof: true, clock: () => new Date(0) });
+        const [users, count] = await db.transaction(async (tx: Transaction) => [
+            await tx.findMany({ collection: "users", withDeleted: true }),
+            await tx.count({ collection: "users" }),
+        ]);
+        expect(users).toEqual([
+            { name: "Bo", _id: 2, deletedAt: "2024-01-01T00:00:00.000Z" },
+            { name: "Cy", _id: 3 },
+        ]);
+        expect(count).toBe(1);
+    });
+
+    test("should not populate soft-deleted documents", async () => {
+        const db = new SencilloDB(config());
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }] });
+            await tx.createMany({ collection: "posts", data: [{ authorId: 1, author: "Ana" }, { authorId: 2, author: "Bo" }] });
+            await tx.destroy({ collection: "users", _id: 2 });
+        });
+        const populated = await db.transaction(async (tx: Transaction) => ({
+            byId: await tx.findMany({ collection: "posts", populate: [{ field: "authorId", collection: "users" }] }),
+            byField: await tx.findMany({ collection: "posts", populate: [{ field: "author", collection: "users", targetField: "name" }] }),
+        }));
+        expect(populated.byId.map((p: any) => p.authorId)).toEqual([{ name: "Ana", _id: 1 }, 2]);
+        expect(populated.byField.map((p: any) => p.author)).toEqual([{ name: "Ana", _id: 1 }, "Bo"]);
+    });
+
+    test("should keep stats correct when dropping a partition", async () => {
+        const db = new SencilloDB(config());
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }], index: "a" });
+            await tx.createMany({ collection: "users", data: [{ name: "Cy" }, { name: "Di" }], index: "b" });
+            await tx.destroy({ collection: "users", _id: 2 });
+            await tx.destroy({ collection: "users", _id: 4 });
+        });
+        const count = await db.transaction(async (tx: Transaction) => {
+            await tx.dropIndex({ collection: "users", index: "b" });
+            return await tx.count({ collection: "users" });
+        });
+        expect(count).toBe(1);
+        expect(JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).users.__stats).toEqual({ inserted: 4, total: 2, deleted: 1 });
+    });
+
+    test("should keep soft-deleted and unswept expired documents when rewriting", async () => {
+        const db = new SencilloDB({
+            ...config(),
+            sweepInterval: 0,
+            collections: { users: { softDelete: true, expireAtField: "expiresAt" } },
+        });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }, { name: "Cy", expiresAt: 0 }] });
+            await tx.destroy({ collection: "users", _id: 1 });
+        });
+        const [users, count] = await db.transaction(async (tx: Transaction) => {
+            await tx.rewriteCollection({ collection: "users" });
+            return [await tx.findMany({ collection: "users", withDeleted: true }), await tx.count({ collection: "users" })];
+        });
+        expect(users.map((u: any) => u.name)).toEqual(["Ana", "Bo"]);
+        expect(count).toBe(1);
+
+        const stored = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).users;
+        expect(stored.default.map((u: any) => u.name)).toEqual(["Ana", "Bo", "Cy"]);
+        expect(stored.__stats).toEqual({ inserted: 3, total: 3, deleted: 1 });
+    });
+
+    test("should replay bulk writes that included soft-deleted documents", async () => {
+        let db = new SencilloDB({ ...config(), aof: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Bo" }] });
+            await tx.destroy({ collection: "users", _id: 1 });
+            await tx.updateMany({ collection: "users", withDeleted: true, data: { $set: { flag: true } } });
+        });
+
+        db = new SencilloDB({ ...config(), aof: true });
+        const users = await db.transaction(async (tx: Transaction) => tx.findMany({ collection: "users", withDeleted: true }));
+        expect(users.map((u: any) => [u.name, u.flag])).toEqual([["Ana", true], ["Bo", true]]);
+    });
+});
+
+describe("TTL Expiry", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+    const start = Date.UTC(2024, 0, 1);
+    let now = start;
+    const clock = () => new Date(now);
+
+    beforeEach(() => {
+        now = start;
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should hide documents expired by expireAfter and remove them on sweep", async () => {
+        const db = new SencilloDB({
+            file: TEST_DB_FILE,
+            clock,
+            sweepInterval: 0,
+            collections: { sessions: { timestamps: true, expireAfter: 1000 } },
+        });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "sessions", data: [{ user: 1 }, { user: 2 }] });
+        });
+        now += 500;
+        await db.transaction(async (tx: Transaction) => tx.create({ collection: "sessions", data: { user: 3 } }));
+        now += 700;
+
+        const result = await db.transaction(async (tx: Transaction) => ({
+            all: await tx.findMany({ collection: "sessions" }),
+            first: await tx.find({ collection: "sessions", filter: { user: 1 } }),
+            count: await tx.count({ collection: "sessions" }),
+            exists: await tx.exists({ collection: "sessions", _id: 1 }),
+        }));
+        expect(result.all.map((s: any) => s.user)).toEqual([3]);
+        expect(result.first).toBeUndefined();
+        expect(result.count).toBe(1);
+        expect(result.exists).toBe(false);
+        // Hidden, but still stored until the sweep
+        expect(JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).sessions.default).toHaveLength(3);
+
+        const events: any[] = [];
+        db.on("expire", (event) => events.push(event));
+        expect(await db.sweep()).toEqual({ count: 2, collections: { sessions: 2 } });
+        expect(events).toEqual([{ count: 2, collections: { sessions: 2 } }]);
+        const stored = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).sessions;
+        expect(stored.default.map((s: any) => s.user)).toEqual([3]);
+        expect(stored.__stats.total).toBe(1);
+
+        // Nothing left to remove, so nothing is emitted
+        expect(await db.sweep()).toEqual({ count: 0, collections: {} });
+        expect(events).toHaveLength(1);
+    });
+
+    test("should expire documents by their own expiry field and replay sweeps from the AOF", async () => {
+        const config = { file: TEST_DB_FILE, aof: true, sweepInterval: 0, collections: { tokens: { expireAtField: "expiresAt" } } };
+        let db = new SencilloDB({ ...config, clock });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "tokens",
+                data: [
+                    { code: "a", expiresAt: new Date(start + 1000).toISOString() },
+                    { code: "b", expiresAt: start + 5000 },
+                    { code: "c" },
+                ],
+            });
+        });
+        now += 2000;
+        const codes = await db.transaction(async (tx: Transaction) => {
+            const tokens = await tx.findMany({ collection: "tokens" });
+            return tokens.map((t: any) => t.code);
+        });
+        expect(codes).toEqual(["b", "c"]);
+        expect((await db.sweep()).count).toBe(1);
+
+        const logged = fs.readFileSync(AOF_FILE, "utf-8").trim().split("\n").map((line) => JSON.parse(line).op);
+        expect(logged).toEqual(["createMany", "purgeExpired"]);
+
+        // Replay removes what the sweep removed, even though "b" has expired by now
+        now += 10000;
+        db = new SencilloDB({ ...config, clock });
+        await db.compact();
+        const stored = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8")).tokens;
+        expect(stored.default.map((t: any) => t.code)).toEqual(["b", "c"]);
+        const remaining = await db.transaction(async (tx: Transaction) => {
+            const tokens = await tx.findMany({ collection: "tokens" });
+            return tokens.map((t: any) => t.code);
+        });
+        expect(remaining).toEqual(["c"]);
+    });
+
+    test("should not let expired documents hold unique values", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, clock, sweepInterval: 0, collections: { tokens: { expireAtField: "expiresAt" } } });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "tokens", data: { code: "a", expiresAt: start + 1000 } });
+            await tx.create({ collection: "tokens", data: { code: "b", expiresAt: start + 1000 } });
+            await tx.ensureIndex({ collection: "tokens", field: "code", unique: true });
+        });
+        now += 2000;
+
+        const result = await db.transaction(async (tx: Transaction) => {
+            const before = await tx.find({ collection: "tokens", filter: { code: "a" } });
+            await tx.create({ collection: "tokens", data: { code: "a", expiresAt: start + 5000 } });
+            // Rebuilding the index skips the expired duplicate too
+            await tx.create({ collection: "tokens", data: { code: "b" } });
+            await tx.rebuildIndex({ collection: "tokens", field: "code" });
+            return { before, after: await tx.findMany({ collection: "tokens" }) };
+        });
+        expect(result.before).toBeUndefined();
+        expect(result.after.map((t: any) => t.code)).toEqual(["a", "b"]);
+    });
+
+    test("should sweep periodically", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, sweepInterval: 20, collections: { tokens: { expireAtField: "expiresAt" } } });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "tokens", data: { code: "a", expiresAt: Date.now() - 1 } });
+        });
+        const [event] = await once(db, "expire");
+        db.close();
+        expect(event).toEqual({ count: 1, collections: { tokens: 1 } });
+    });
+
+    test("should require timestamps for expireAfter", () => {
+        expect(() => new SencilloDB({ file: TEST_DB_FILE, collections: { sessions: { expireAfter: 1000 } } })).toThrow("requires timestamps");
+    });
+});
+
+describe("Change Streams", () => {
+    const CHANGES_FILE = TEST_DB_FILE + ".changes";
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(CHANGES_FILE)) fs.unlinkSync(CHANGES_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(CHANGES_FILE)) fs.unlinkSync(CHANGES_FILE);
+    });
+
+    test("should emit committed changes to matching watchers", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const all: any[] = [];
+        const stream = db.watch();
+        stream.on("change", (event) => all.push(event));
+        const adults = db.watch("users", { age: { $gte: 18 } });
+        const deletes: any[] = [];
+        adults.on("delete", (event) => deletes.push(event._id));
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana", age: 30 }, { name: "Bo", age: 12 }] });
+            await tx.create({ collection: "logs", data: { msg: "hi" } });
+            // Nothing is emitted before the commit
+            expect(all).toEqual([]);
+        });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 2, data: { $inc: { age: 10 } } });
+            throw new Error("rolled back");
+        }).catch(() => {});
+        await db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 2, data: { $set: { age: 18 } } });
+            await tx.destroyMany({ collection: "users", filter: {} });
+            await tx.dropCollection({ collection: "logs" });
+        });
+
+        expect(all.map(({ position, type, collection, _id }) => [position, type, collection, _id])).toEqual([
+            [1, "insert", "users", 1],
+            [2, "insert", "users", 2],
+            [3, "insert", "logs", 1],
+            [4, "update", "users", 2],
+            [5, "delete", "users", 1],
+            [6, "delete", "users", 2],
+            [7, "drop", "logs", undefined],
+        ]);
+        expect(all[3]).toMatchObject({ before: { name: "Bo", age: 12 }, after: { name: "Bo", age: 18 } });
+
+        // Deletes are matched against the document as it was
+        expect(deletes).toEqual([1, 2]);
+
+        // The iterable yields changes committed after iteration starts
+        const iterator = adults[Symbol.asyncIterator]();
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Cy", age: 9 }, { name: "Di", age: 40 }] });
+        });
+        expect(await iterator.next()).toMatchObject({ done: false, value: { position: 9, type: "insert", after: { name: "Di" } } });
+        await iterator.return!();
+        expect(await iterator.next()).toEqual({ value: undefined, done: true });
+        stream.close();
+    });
+
+    test("should buffer changes committed before the iterator is read", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const stream = db.watch("a");
+        const iterator = stream[Symbol.asyncIterator]();
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "a", data: { n: 1 } });
+        });
+        expect(await iterator.next()).toMatchObject({ done: false, value: { position: 1, type: "insert", after: { n: 1 } } });
+        stream.close();
+        expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    });
+
+    test("should resume from a position after a restart", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE, changeHistory: 3, persistChanges: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "A" }, { name: "B" }, { name: "C" }, { name: "D" }] });
+        });
+
+        const db2 = new SencilloDB({ file: TEST_DB_FILE, changeHistory: 3, persistChanges: true });
+        const stream = db2.watch("users", undefined, { resumeAfter: 2 });
+        const positions: number[] = [];
+        for await (const event of stream) {
+            positions.push(event.position);
+            if (event.position === 4) {
+                await db2.transaction(async (tx: Transaction) => {
+                    await tx.create({ collection: "users", data: { name: "E" } });
+                });
+            }
+            if (event.position === 5) break;
+        }
+        expect(positions).toEqual([3, 4, 5]);
+
+        // Position 1 has been dropped from the history
+        await expect(db2.watch("users", undefined, { resumeAfter: 1 })[Symbol.asyncIterator]().next()).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should refuse to resume across changes that were not retained", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const resume = (source: SencilloDB, resumeAfter: number) =>
+            source.watch("users", undefined, { resumeAfter })[Symbol.asyncIterator]().next();
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "A" }, { name: "B" }] });
+        });
+        // Nothing watched or kept these, but they still moved the position on
+        await expect(resume(db, 0)).rejects.toThrow("no longer retained");
+
+        const stream = db.watch("users");
+        const iterator = stream[Symbol.asyncIterator]();
+        await db.transaction(async (tx: Transaction) => tx.create({ collection: "users", data: { name: "C" } }));
+        const { value } = await iterator.next();
+        expect(value.position).toBe(3);
+        stream.close();
+
+        // Without persistChanges a restart starts the positions over
+        const restarted = new SencilloDB({ file: TEST_DB_FILE });
+        await expect(resume(restarted, value.position)).rejects.toBeInstanceOf(ValidationError);
+    });
+});
+
+describe("Population", () => {
+    test("should populate related documents", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        await db.transaction(async (tx: Transaction) => {
+            // Create users
+            const user1 = await tx.create({ collection: "users", data: { name: "Alice" } });
+            const user2 = await tx.create({ collection: "users", data: { name: "Bob" } });
+
+            // Create posts
+            await tx.create({ collection: "posts", data: { title: "Post 1", authorId: user1._id } });
+            await tx.create({ collection: "posts", data: { title: "Post 2", authorId: user2._id } });
+        });
+
+        const posts = await db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({
+                collection: "posts",
+                callback: () => true,
+                populate: [{ field: "authorId", collection: "users" }]
+            });
+        });
+
+        expect(posts).toHaveLength(2);
+        expect(posts[0].authorId).toMatchObject({ name: "Alice" });
+        expect(posts[1].authorId).toMatchObject({ name: "Bob" });
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+});
+
+describe("Typed Collections", () => {
+    interface User {
+        name: string;
+        age: number;
+        tags: string[];
+        address?: { city: string };
+    }
+    interface Post {
+        title: string;
+        authorId: number;
+    }
+    type Blog = { users: User; posts: Post };
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should type documents, filters and populated fields by collection", async () => {
+        const db = new SencilloDB<Blog>({ file: TEST_DB_FILE });
+        await db.transaction(async (tx) => {
+            const ana = await tx.create({ collection: "users", data: { name: "Ana", age: 30, tags: ["admin"] } });
+            await tx.create({ collection: "posts", data: { title: "Hello", authorId: ana._id } });
+
+            const user = await tx.find({ collection: "users", filter: { age: { $gte: 18 }, tags: "admin", "address.city": { $exists: false } } });
+            const name: string | undefined = user?.name;
+            expect(name).toBe("Ana");
+
+            const [post] = await tx.findMany({ collection: "posts", populate: [{ field: "authorId", collection: "users" }] });
+            // Unresolved references keep their id
+            const author = typeof post.authorId === "number" ? undefined : post.authorId;
+            expect(author?.tags).toEqual(["admin"]);
+
+            const ages: number[] = await tx.distinct({ collection: "users", field: "age" });
+            expect(ages).toEqual([30]);
+        });
+
+        // Only compiled, never run
+        const rejected = () => db.transaction(async (tx) => {
+            // @ts-expect-error unknown field
+            await tx.findMany({ collection: "users", filter: { nmae: "Ana" } });
+            // @ts-expect-error age holds numbers
+            await tx.findMany({ collection: "users", filter: { age: { $gt: "18" } } });
+            // @ts-expect-error $regex only applies to strings
+            await tx.count({ collection: "users", filter: { age: { $regex: "^3" } } });
+            // @ts-expect-error documents must match the collection's type
+            await tx.create({ collection: "posts", data: { title: 1, authorId: 1 } });
+            // @ts-expect-error unknown collection
+            await tx.find({ collection: "comments" });
+            // @ts-expect-error populate targets a collection of the schema
+            await tx.find({ collection: "posts", populate: [{ field: "authorId", collection: "people" }] });
+        });
+        expect(typeof rejected).toBe("function");
+    });
+
+    test("should accept typed databases in quickTx and resource managers", async () => {
+        const db = new SencilloDB<Blog>({ file: TEST_DB_FILE });
+        const qtx = quickTx(db);
+        await qtx("create", { collection: "users", data: { name: "Ana", age: 30, tags: [] } });
+
+        const posts = createResourceManager({ db, collection: "posts", schema: { title: String, authorId: Number } });
+        await posts.execute("create", { data: { title: "Hello", authorId: 1 } });
+        expect(await qtx("count", { collection: "posts" })).toBe(1);
+    });
+});
+
+describe("Projection", () => {
+    test("should include or exclude fields, including populated ones", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        await db.transaction(async (tx: Transaction) => {
+            const author = await tx.create({
+                collection: "users",
+                data: { name: "Alice", email: "alice@example.com", password: "secret" }
+            });
+            await tx.create({
+                collection: "posts",
+                data: { title: "Hello", body: "Long text", meta: { views: 10, likes: 2 }, authorId: author._id }
+            });
+        });
+
+        await db.transaction(async (tx: Transaction) => {
+            const listed = await tx.findMany({
+                collection: "posts",
+                projection: { title: 1, "meta.views": 1 }
+            });
+            expect(listed).toEqual([{ _id: 1, title: "Hello", meta: { views: 10 } }]);
+
+            const withoutBody = await tx.find({
+                collection: "posts",
+                filter: { title: "Hello" },
+                projection: { body: 0, _id: 0 }
+            });
+            expect(withoutBody).toEqual({ title: "Hello", meta: { views: 10, likes: 2 }, authorId: 1 });
+
+            const populated = await tx.find({
+                collection: "posts",
+                filter: { title: "Hello" },
+                populate: [{ field: "authorId", collection: "users" }],
+                projection: { title: 1, "authorId.name": 1 }
+            });
+            expect(populated).toEqual({ _id: 1, title: "Hello", authorId: { name: "Alice" } });
+
+            // Stored documents are left untouched
+            const stored = await tx.find({ collection: "users", filter: { name: "Alice" } });
+            expect(stored.password).toBe("secret");
+        });
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "posts", projection: { title: 1, body: 0 } });
+        })).rejects.toBeInstanceOf(ValidationError);
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+});
+
+describe("Pagination", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should apply limit and skip", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "nums",
+                data: [5, 4, 3, 2, 1].map((val) => ({ val })),
+                index: (item: any) => (item.val % 2 === 0 ? "even" : "odd"),
+            });
+        });
+
+        const pages = await db.transaction(async (tx: Transaction) => {
+            return {
+                first: await tx.findMany({ collection: "nums", limit: 2 }),
+                second: await tx.findMany({ collection: "nums", limit: 2, skip: 2 }),
+                sorted: await tx.findMany({ collection: "nums", sort: (a: any, b: any) => a.val - b.val, skip: 1, limit: 2 }),
+            };
+        });
+
+        expect(pages.first.map((d: any) => d._id)).toEqual([1, 2]);
+        expect(pages.second.map((d: any) => d._id)).toEqual([3, 4]);
+        expect(pages.sorted.map((d: any) => d.val)).toEqual([2, 3]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "nums", limit: -1 });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should resume pages from a cursor", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "nums",
+                data: Array.from({ length: 7 }, (_, i) => ({ val: i + 1 })),
+            });
+        });
+
+        const seen: number[] = [];
+        let cursor: string | null | undefined = undefined;
+        let pages = 0;
+        do {
+            const page: any = await db.transaction(async (tx: Transaction) => {
+                return await tx.findPage({
+                    collection: "nums",
+                    filter: { val: { $ne: 4 } },
+                    limit: 3,
+                    cursor: cursor || undefined,
+                });
+            });
+            seen.push(...page.results.map((d: any) => d.val));
+            cursor = page.cursor;
+            pages++;
+        } while (cursor);
+
+        expect(seen).toEqual([1, 2, 3, 5, 6, 7]);
+        expect(pages).toBe(2);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "nums", cursor: "not-a-cursor" });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should stop loading shards once the limit is satisfied", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", index: "A", data: { name: "Alice" } });
+            await tx.create({ collection: "users", index: "A", data: { name: "Ann" } });
+            await tx.create({ collection: "users", index: "B", data: { name: "Bob" } });
+        });
+
+        // A shard that would fail to parse if it were ever read
+        fs.writeFileSync(path.join(TEST_DB_FOLDER, "users", "shard_B.json"), "not json");
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        const results = await db2.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "users", limit: 2 });
+        });
+
+        expect(results.map((u: any) => u.name)).toEqual(["Alice", "Ann"]);
+    });
+});
+
+describe("Iteration", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should stream filtered, populated documents", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const titles = await db.transaction(async (tx: Transaction) => {
+            const alice = await tx.create({ collection: "users", data: { name: "Alice" } });
+            await tx.createMany({
+                collection: "posts",
+                data: [
+                    { title: "One", authorId: alice._id, draft: false },
+                    { title: "Two", authorId: alice._id, draft: true },
+                    { title: "Three", authorId: alice._id, draft: false },
+                ],
+            });
+
+            const seen = [];
+            for await (const post of tx.iterate({
+                collection: "posts",
+                filter: { draft: false },
+                populate: [{ field: "authorId", collection: "users" }],
+            })) {
+                seen.push(`${post.title} by ${post.authorId.name}`);
+            }
+            return seen;
+        });
+        expect(titles).toEqual(["One by Alice", "Three by Alice"]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            for await (const post of tx.iterate({ collection: "posts", sort: { title: 1 } })) return post;
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should load shards one at a time and stop early", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "events", index: "A", data: { kind: "login" } });
+            await tx.create({ collection: "events", index: "B", data: { kind: "logout" } });
+            await tx.create({ collection: "events", index: "C", data: { kind: "login" } });
+        });
+
+        // Shard C would fail to parse if it were ever read
+        fs.writeFileSync(path.join(TEST_DB_FOLDER, "events", "shard_C.json"), "not json");
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true, maxCacheSize: 2 });
+        const first = await db2.transaction(async (tx: Transaction) => {
+            for await (const event of tx.iterate({ collection: "events", callback: (e: any) => e.kind === "logout" })) {
+                return event;
+            }
+        });
+        expect(first._id).toBe(2);
+
+        // With room for the collection and one shard, A was evicted once B loaded
+        const shardA = path.join(TEST_DB_FOLDER, "events", "shard_A.json");
+        fs.writeFileSync(shardA, JSON.stringify([{ _id: 1, kind: "MODIFIED" }]));
+        const kinds = await db2.transaction(async (tx: Transaction) => {
+            const seen = [];
+            for await (const event of tx.iterate({ collection: "events", index: "A" })) seen.push(event.kind);
+            return seen;
+        });
+        expect(kinds).toEqual(["MODIFIED"]);
+    });
+});
+
+describe("Sort Specifications", () => {
+    const AOF_FILE = TEST_DB_FILE + ".aof";
+
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+    });
+
+    const people = [
+        { name: "Cleo", age: 30, address: { city: "Lima" } },
+        { name: "Ana", age: 25, address: { city: "Quito" } },
+        { name: "Bea", age: 30 },
+        { name: "Dan", age: 30, address: { city: "Bogota" } },
+        { name: "Eva", age: null, address: { city: "Lima" } },
+    ];
+
+    test("should sort by multiple fields with nulls and _id tie-breaking", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "people", data: people });
+        });
+
+        const sorted = await db.transaction(async (tx: Transaction) => {
+            return {
+                byAgeDesc: await tx.findMany({ collection: "people", sort: { age: -1 } }),
+                byAgeThenName: await tx.findMany({ collection: "people", sort: { age: 1, name: -1 } }),
+                byCity: await tx.findMany({ collection: "people", sort: { "address.city": { order: 1, nulls: "last" } } }),
+            };
+        });
+
+        const names = (docs: any[]) => docs.map((d: any) => d.name);
+        expect(names(sorted.byAgeDesc)).toEqual(["Cleo", "Bea", "Dan", "Ana", "Eva"]);
+        expect(names(sorted.byAgeThenName)).toEqual(["Eva", "Ana", "Dan", "Cleo", "Bea"]);
+        expect(names(sorted.byCity)).toEqual(["Dan", "Cleo", "Eva", "Ana", "Bea"]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "people", sort: { age: 2 as any } });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should page through a sort spec with cursors", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "people", data: people });
+        });
+
+        const seen: string[] = [];
+        let cursor: string | null = null;
+        do {
+            const page: any = await db.transaction(async (tx: Transaction) => {
+                return await tx.findPage({ collection: "people", sort: { age: -1 }, limit: 2, cursor: cursor || undefined });
+            });
+            seen.push(...page.results.map((d: any) => d.name));
+            cursor = page.cursor;
+        } while (cursor);
+
+        expect(seen).toEqual(["Cleo", "Bea", "Dan", "Ana", "Eva"]);
+    });
+
+    test("should keep the ordering of a replayed rewriteCollection", async () => {
+        let db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "people", data: people });
+            await tx.rewriteCollection({ collection: "people", sort: { name: 1 } });
+        });
+
+        db = new SencilloDB({ file: TEST_DB_FILE, aof: true });
+        const rewritten = await db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "people" });
+        });
+
+        expect(rewritten.map((d: any) => d.name)).toEqual(["Ana", "Bea", "Cleo", "Dan", "Eva"]);
+        expect(rewritten.map((d: any) => d._id)).toEqual([1, 2, 3, 4, 5]);
+    });
+});
+
+describe("Aggregation", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should group, sort and limit", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "orders",
+                data: [
+                    { customer: "ana", total: 10, status: "paid" },
+                    { customer: "ben", total: 25, status: "paid" },
+                    { customer: "ana", total: 30, status: "paid" },
+                    { customer: "cam", total: 5, status: "void" },
+                    { customer: "ben", total: 5, status: "paid" },
+                ],
+            });
+        });
+
+        const results = await db.transaction(async (tx: Transaction) => {
+            return await tx.aggregate({
+                collection: "orders",
+                pipeline: [
+                    { $match: { status: "paid" } },
+                    {
+                        $group: {
+                            _id: "$customer",
+                            spent: { $sum: "$total" },
+                            orders: { $sum: 1 },
+                            average: { $avg: "$total" },
+                            smallest: { $min: "$total" },
+                            largest: { $max: "$total" },
+                            totals: { $push: "$total" },
+                        },
+                    },
+                    { $sort: { spent: -1 } },
+                    { $limit: 1 },
+                ],
+            });
+        });
+
+        expect(results).toEqual([
+            { _id: "ana", spent: 40, orders: 2, average: 20, smallest: 10, largest: 30, totals: [10, 30] },
+        ]);
+    });
+
+    test("should unwind, look up and project", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ name: "Ana" }, { name: "Ben" }] });
+            await tx.createMany({
+                collection: "posts",
+                data: [
+                    { title: "Hello", authorId: 1, tags: ["intro", "news"] },
+                    { title: "Again", authorId: 2, tags: [] },
+                ],
+            });
+        });
+
+        const results = await db.transaction(async (tx: Transaction) => {
+            return await tx.aggregate({
+                collection: "posts",
+                pipeline: [
+                    { $unwind: "$tags" },
+                    { $lookup: { from: "users", localField: "authorId", foreignField: "_id", as: "author" } },
+                    { $project: { _id: 0, title: 1, tag: "$tags", authorName: "$author.name" } },
+                ],
+            });
+        });
+
+        expect(results).toEqual([
+            { title: "Hello", tag: "intro", authorName: ["Ana"] },
+            { title: "Hello", tag: "news", authorName: ["Ana"] },
+        ]);
+
+        const counted = await db.transaction(async (tx: Transaction) => {
+            return await tx.aggregate({
+                collection: "posts",
+                pipeline: [{ $unwind: { path: "$tags", preserveNullAndEmptyArrays: true } }, { $count: "rows" }],
+            });
+        });
+        expect(counted).toEqual([{ rows: 3 }]);
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            return await tx.aggregate({ collection: "posts", pipeline: [{ $explode: {} } as any] });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should stream shards and stop once $limit is reached", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", index: "A", data: { name: "Alice" } });
+            await tx.create({ collection: "users", index: "B", data: { name: "Bob" } });
+        });
+
+        const colDir = path.join(TEST_DB_FOLDER, "users");
+        const firstShard = fs.readdirSync(colDir).filter((f) => f.startsWith("shard_"))[1];
+        fs.writeFileSync(path.join(colDir, firstShard), "not json");
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        const results = await db2.transaction(async (tx: Transaction) => {
+            return await tx.aggregate({ collection: "users", pipeline: [{ $limit: 1 }] });
+        });
+        expect(results).toHaveLength(1);
+    });
+});
+
+describe("Count, Distinct and Exists", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    const seed = async (db: SencilloDB, type: "hash" | "ordered" = "hash") => {
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "role", type });
+            await tx.createMany({
+                collection: "users",
+                index: (user: any) => user.team,
+                data: [
+                    { name: "Ana", role: "admin", team: "red", tags: ["a", "b"] },
+                    { name: "Ben", role: "dev", team: "blue", tags: ["b"] },
+                    { name: "Cam", role: "dev", team: "red", tags: [] },
+                    { name: "Dee", role: "ops", team: "blue" },
+                ],
+            });
+        });
+    };
+
+    test("should count, list distinct values and check existence", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await seed(db);
+
+        await db.transaction(async (tx: Transaction) => {
+            expect(await tx.count({ collection: "users" })).toBe(4);
+            expect(await tx.count({ collection: "users", index: "red" })).toBe(2);
+            expect(await tx.count({ collection: "users", filter: { role: "dev" } })).toBe(2);
+            expect(await tx.count({ collection: "users", filter: { role: "dev", team: "red" } })).toBe(1);
+            expect(await tx.count({ collection: "users", callback: (u: any) => u.name.startsWith("D") })).toBe(1);
+
+            expect(await tx.distinct({ collection: "users", field: "role" })).toEqual(["admin", "dev", "ops"]);
+            expect(await tx.distinct({ collection: "users", field: "tags" })).toEqual(["a", "b"]);
+            expect(await tx.distinct({ collection: "users", field: "name", filter: { team: "blue" } })).toEqual(["Ben", "Dee"]);
+
+            expect(await tx.exists({ collection: "users", _id: 2 })).toBe(true);
+            expect(await tx.exists({ collection: "users", _id: 9 })).toBe(false);
+            expect(await tx.exists({ collection: "users", _id: 2, filter: { role: "ops" } })).toBe(false);
+            expect(await tx.exists({ collection: "users", filter: { role: "ops" } })).toBe(true);
+            expect(await tx.exists({ collection: "users", filter: { name: "Zed" } })).toBe(false);
+        });
+    });
+
+    test("should keep values of different types that share a hash bucket", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const values = await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "items", field: "v" });
+            await tx.createMany({ collection: "items", data: [{ v: 1 }, { v: "1" }, { v: true }, { v: "true" }, { v: 1 }] });
+            return await tx.distinct({ collection: "items", field: "v" });
+        });
+        expect(values).toEqual([1, "1", "true", true]);
+    });
+
+    test("should answer from indexes without loading shards", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        // Hash buckets mix types that stringify alike, so only ordered indexes answer alone
+        await seed(db, "ordered");
+
+        // Shards that would fail to parse if they were ever read
+        for (const team of ["red", "blue"]) {
+            fs.writeFileSync(path.join(TEST_DB_FOLDER, "users", `shard_${team}.json`), "not json");
+        }
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.count({ collection: "users" })).toBe(4);
+            expect(await tx.count({ collection: "users", index: "blue" })).toBe(2);
+            expect(await tx.count({ collection: "users", filter: { role: "dev" } })).toBe(2);
+            expect(await tx.exists({ collection: "users", _id: 3 })).toBe(true);
+            expect(await tx.exists({ collection: "users", filter: { role: "qa" } })).toBe(false);
+        });
+    });
+});
+
+describe("Secondary Indexing", () => {
+    test("should maintain and use secondary indexes", async () => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "email" });
+            
+            await tx.createMany({
+                collection: "users",
+                data: [
+                    { name: "Alice", email: "alice@example.com", age: 30 },
+                    { name: "Bob", email: "bob@example.com", age: 25 },
+                    { name: "Charlie", email: "charlie@example.com", age: 35 }
+                ]
+            });
+        });
+
+        // Find using index (optimization should kick in)
+        const alice = await db.transaction(async (tx: Transaction) => {
+            return await tx.find({
+                collection: "users",
+                filter: { email: "alice@example.com" }
+            });
+        });
+        expect(alice).toMatchObject({ name: "Alice" });
+
+        // Update email (should update index)
+        await db.transaction(async (tx: Transaction) => {
+            await tx.update({
+                collection: "users",
+                _id: alice._id,
+                data: { ...alice, email: "alice_new@example.com" }
+            });
+        });
+
+        // Find with old email (should fail)
+        const oldAlice = await db.transaction(async (tx: Transaction) => {
+            return await tx.find({
+                collection: "users",
+                filter: { email: "alice@example.com" }
+            });
+        });
+        expect(oldAlice).toBeUndefined();
+
+        // Find with new email (should succeed)
+        const newAlice = await db.transaction(async (tx: Transaction) => {
+            return await tx.find({
+                collection: "users",
+                filter: { email: "alice_new@example.com" }
+            });
+        });
+        expect(newAlice).toMatchObject({ name: "Alice", email: "alice_new@example.com" });
+
+        // Destroy (should remove from index)
+        await db.transaction(async (tx: Transaction) => {
+            await tx.destroy({
+                collection: "users",
+                _id: newAlice._id
+            });
+        });
+
+        const deletedAlice = await db.transaction(async (tx: Transaction) => {
+            return await tx.find({
+                collection: "users",
+                filter: { email: "alice_new@example.com" }
+            });
+        });
+        expect(deletedAlice).toBeUndefined();
+
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+});
+
+describe("Ordered Indexes", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should keep typed, sorted keys and serve range queries", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "items",
+                data: [{ code: 1 }, { code: "1" }, { code: 10 }, { code: 3 }, { name: "no code" }],
+            });
+            await tx.ensureIndex({ collection: "items", field: "code", type: "ordered" });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.items.__secondary_indexes.code).toEqual([
+            [null, [5]], [1, [1]], [3, [4]], [10, [3]], ["1", [2]],
+        ]);
+
+        await db.transaction(async (tx: Transaction) => {
+            const ids = (docs: any[]) => docs.map((d: any) => d._id);
+            expect(ids(await tx.findMany({ collection: "items", filter: { code: 1 } }))).toEqual([1]);
+            expect(ids(await tx.findMany({ collection: "items", filter: { code: "1" } }))).toEqual([2]);
+            expect(ids(await tx.findMany({ collection: "items", filter: { code: { $gte: 3 } } }))).toEqual([3, 4]);
+            expect(ids(await tx.findMany({ collection: "items", filter: { code: { $gt: 1, $lt: 10 } } }))).toEqual([4]);
+            expect(await tx.find({ collection: "items", filter: { code: { $lt: 3 } } })).toMatchObject({ _id: 1 });
+            expect(await tx.count({ collection: "items", filter: { code: { $gt: 0 } } })).toBe(3);
+            expect(await tx.distinct({ collection: "items", field: "code" })).toEqual([1, 3, 10, "1"]);
+        });
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "items", field: "code", type: "hash" });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should sort by an indexed field without loading every shard", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "age", type: "ordered" });
+            await tx.create({ collection: "users", index: "A", data: { name: "Ana", age: 40 } });
+            await tx.create({ collection: "users", index: "B", data: { name: "Ben", age: 20 } });
+            await tx.create({ collection: "users", index: "A", data: { name: "Cam", age: 30 } });
+            await tx.create({ collection: "users", index: "B", data: { name: "Dee" } });
+        });
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        const sorted = await db2.transaction(async (tx: Transaction) => {
+            return {
+                asc: await tx.findMany({ collection: "users", sort: { age: 1 } }),
+                desc: await tx.findMany({ collection: "users", sort: { age: -1 } }),
+                range: await tx.findMany({ collection: "users", filter: { age: { $gte: 30 } }, sort: { age: -1 } }),
+            };
+        });
+        const names = (docs: any[]) => docs.map((d: any) => d.name);
+        expect(names(sorted.asc)).toEqual(["Dee", "Ben", "Cam", "Ana"]);
+        expect(names(sorted.desc)).toEqual(["Ana", "Cam", "Ben", "Dee"]);
+        expect(names(sorted.range)).toEqual(["Ana", "Cam"]);
+
+        // Shard B would fail to parse if it were ever read
+        fs.writeFileSync(path.join(TEST_DB_FOLDER, "users", "shard_B.json"), "not json");
+        const db3 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        const oldest = await db3.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "users", sort: { age: -1 }, limit: 2 });
+        });
+        expect(names(oldest)).toEqual(["Ana", "Cam"]);
+    });
+
+    test("should index each element of array values", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "tags" });
+            await tx.createMany({
+                collection: "users",
+                data: [{ name: "Ana", tags: ["admin", "dev"] }, { name: "Ben", tags: ["dev"] }],
+            });
+        });
+
+        const devs = await db.transaction(async (tx: Transaction) => {
+            return await tx.findMany({ collection: "users", filter: { tags: "dev" } });
+        });
+        expect(devs.map((d: any) => d.name)).toEqual(["Ana", "Ben"]);
+    });
+
+    test("should match array ranges the same way with and without an index", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        const data = [{ v: [1, 10] }, { v: 6 }, { v: [2, 3] }, { v: [9] }];
+        const filter = { v: { $gt: 5, $lt: 8 } };
+        const scanned = await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "items", data });
+            return (await tx.findMany({ collection: "items", filter })).map((d: any) => d._id);
+        });
+        expect(scanned).toEqual([1, 2]);
+
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "items", field: "v", type: "ordered" });
+            const found = await tx.findMany({ collection: "items", filter });
+            expect(found.map((d: any) => d._id)).toEqual(scanned);
+            expect(await tx.count({ collection: "items", filter })).toBe(2);
+        });
+    });
+});
+
+describe("Compound and Sparse Indexes", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should serve equality on a prefix of a compound index", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "tickets",
+                data: [
+                    { tenantId: 1, status: "open" },
+                    { tenantId: 1, status: "closed" },
+                    { tenantId: 2, status: "open" },
+                    { tenantId: 1, status: ["open", "urgent"] },
+                ],
+            });
+            await tx.ensureIndex({ collection: "tickets", field: ["tenantId", "status"], type: "ordered" });
+            await tx.ensureIndex({ collection: "tickets", field: ["status", "tenantId"] });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.tickets.__secondary_indexes["tenantId,status"]).toEqual([
+            [[1, "closed"], [2]], [[1, "open"], [1, 4]], [[1, "urgent"], [4]], [[2, "open"], [3]],
+        ]);
+
+        await db.transaction(async (tx: Transaction) => {
+            const ids = (docs: any[]) => docs.map((d: any) => d._id);
+            const both = await tx.findMany({ collection: "tickets", filter: { status: "open", tenantId: 1 }, explain: true });
+            expect(both.plan.indexes).toEqual(["tenantId,status", "status,tenantId"]);
+            expect(both.documentsReturned).toBe(2);
+
+            const prefix = await tx.findMany({ collection: "tickets", filter: { tenantId: 1 }, explain: true });
+            expect(prefix.plan).toEqual({ strategy: "indexLookup", indexes: ["tenantId,status"], candidates: 3 });
+            expect(ids(await tx.findMany({ collection: "tickets", filter: { tenantId: 1 } }))).toEqual([1, 2, 4]);
+            expect(await tx.count({ collection: "tickets", filter: { tenantId: 1, status: "open" } })).toBe(2);
+
+            await tx.update({ collection: "tickets", _id: 3, data: { tenantId: 1, status: "closed" } });
+            expect(ids(await tx.findMany({ collection: "tickets", filter: { tenantId: 1, status: "closed" } }))).toEqual([2, 3]);
+        });
+    });
+
+    test("should leave out documents missing the field or outside the partial filter", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "users",
+                data: [
+                    { email: "a@x.io", active: true },
+                    { name: "no email", active: true },
+                    { email: "a@x.io", active: false },
+                ],
+            });
+            await tx.ensureIndex({ collection: "users", field: "name", type: "ordered", sparse: true });
+            await tx.ensureIndex({ collection: "users", field: "email", unique: true, partialFilter: { active: true } });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.users.__secondary_indexes.name).toEqual([["no email", [2]]]);
+        expect(content.users.__secondary_indexes.email).toEqual({ "a@x.io": [1] });
+
+        await db.transaction(async (tx: Transaction) => {
+            const ids = (docs: any[]) => docs.map((d: any) => d._id);
+            // Without the partial filter in the query, the index could miss matches
+            expect(ids(await tx.findMany({ collection: "users", filter: { email: "a@x.io" } }))).toEqual([1, 3]);
+            const report = await tx.findMany({ collection: "users", filter: { email: "a@x.io", active: true }, explain: true });
+            expect(report.plan.indexes).toEqual(["email"]);
+            // Sparse indexes do not list every document, so sorting falls back to a scan
+            expect(ids(await tx.findMany({ collection: "users", sort: { name: -1 } }))).toEqual([2, 1, 3]);
+
+            // Inactive users do not take part in the unique constraint
+            await tx.create({ collection: "users", data: { email: "a@x.io", active: false } });
+        });
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.update({ collection: "users", _id: 3, data: { $set: { active: true } } });
+        })).rejects.toBeInstanceOf(UniqueConstraintError);
+    });
+});
+
+describe("Unique Indexes", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+    });
+
+    test("should reject duplicate values and roll back the transaction", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "email", unique: true });
+            await tx.createMany({ collection: "users", data: [{ email: "a@x.io" }, { email: "b@x.io" }, { name: "no email" }, { name: "no email" }] });
+            // Hash buckets share string keys, but 1 and "1" are different values
+            await tx.create({ collection: "users", data: { email: 1 } });
+            await tx.create({ collection: "users", data: { email: "1" } });
+        });
+
+        const error = await db.transaction(async (tx: Transaction) => {
+            await tx.create({ collection: "users", data: { email: "c@x.io" } });
+            await tx.update({ collection: "users", _id: 2, data: { email: "a@x.io" } });
+        }).catch((e) => e);
+        expect(error).toBeInstanceOf(UniqueConstraintError);
+        expect(error).toMatchObject({ field: "email", value: "a@x.io", conflictingId: 1 });
+
+        await db.transaction(async (tx: Transaction) => {
+            expect(await tx.exists({ collection: "users", filter: { email: "c@x.io" } })).toBe(false);
+            // Updating a document with its own value is fine
+            await tx.update({ collection: "users", _id: 1, data: { email: "a@x.io", name: "Ana" } });
+        });
+
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ email: "d@x.io" }, { email: "d@x.io" }] });
+        })).rejects.toBeInstanceOf(UniqueConstraintError);
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.updateMany({ collection: "users", filter: { email: { $in: ["a@x.io", "b@x.io"] } }, data: { $set: { email: "e@x.io" } } });
+        })).rejects.toBeInstanceOf(UniqueConstraintError);
+        await expect(db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "email" });
+        })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test("should refuse to build over existing duplicates", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "tags", data: [{ names: ["a", "b"] }, { names: ["c", "b"] }] });
+        });
+
+        const error = await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "tags", field: "names", type: "ordered", unique: true });
+        }).catch((e) => e);
+        expect(error).toMatchObject({ name: "UniqueConstraintError", field: "names", value: "b", conflictingId: 1 });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.tags.__secondary_indexes).toBeUndefined();
+    });
+});
+
+describe("Index Management", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should list, drop and rebuild indexes", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "users", data: [{ email: "a@x.io", age: 30, bio: "likes databases" }, { email: "b@x.io", age: 25 }] });
+            await tx.ensureIndex({ collection: "users", field: "email", unique: true });
+            await tx.ensureIndex({ collection: "users", field: ["age", "email"], type: "ordered" });
+            await tx.ensureIndex({ collection: "users", field: "bio", type: "text" });
+        });
+
+        await db.transaction(async (tx: Transaction) => {
+            const indexes = await tx.listIndexes({ collection: "users" });
+            expect(indexes.map(({ createdAt, ...rest }) => rest)).toEqual([
+                { name: "email", fields: ["email"], type: "hash", unique: true },
+                { name: "age,email", fields: ["age", "email"], type: "ordered" },
+                { name: "text:bio", fields: ["bio"], type: "text" },
+            ]);
+            expect(Number.isNaN(Date.parse(indexes[0].createdAt))).toBe(false);
+
+            await tx.dropSecondaryIndex({ collection: "users", field: ["age", "email"], type: "ordered" });
+            await tx.dropSecondaryIndex({ collection: "users", field: "bio", type: "text" });
+            await expect(tx.dropSecondaryIndex({ collection: "users", field: "age" })).rejects.toMatchObject({ name: "IndexNotFoundError" });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(Object.keys(content.users.__indexes)).toEqual(["email"]);
+        expect(Object.keys(content.users.__secondary_indexes)).toEqual(["email"]);
+        expect(content.users.__text_indexes).toEqual({});
+
+        // A stale index is rebuilt from the documents with its original definition
+        content.users.__secondary_indexes.email = { type: "hash", values: {} };
+        fs.writeFileSync(TEST_DB_FILE, JSON.stringify(content));
+        const db2 = new SencilloDB({ file: TEST_DB_FILE });
+        await db2.transaction(async (tx: Transaction) => {
+            expect(await tx.find({ collection: "users", filter: { email: "b@x.io" } })).toBeUndefined();
+            await tx.rebuildIndex({ collection: "users", field: "email" });
+            expect(await tx.find({ collection: "users", filter: { email: "b@x.io" } })).toMatchObject({ _id: 2 });
+            const [email] = await tx.listIndexes({ collection: "users" });
+            expect(email.createdAt).toBe(content.users.__indexes.email.createdAt);
+            await expect(tx.create({ collection: "users", data: { email: "a@x.io" } })).rejects.toBeInstanceOf(UniqueConstraintError);
+        });
+    });
+
+    test("should date index definitions by the clock and replay the same date", async () => {
+        const AOF_FILE = TEST_DB_FILE + ".aof";
+        if (fs.existsSync(AOF_FILE)) fs.unlinkSync(AOF_FILE);
+        const db = new SencilloDB({ file: TEST_DB_FILE, aof: true, clock: () => new Date(Date.UTC(2024, 0, 1)) });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "email" });
+        });
+
+        const db2 = new SencilloDB({ file: TEST_DB_FILE, aof: true, clock: () => new Date(Date.UTC(2025, 0, 1)) });
+        await db2.transaction(async (tx: Transaction) => {
+            const [email] = await tx.listIndexes({ collection: "users" });
+            expect(email.createdAt).toBe("2024-01-01T00:00:00.000Z");
+        });
+        fs.unlinkSync(AOF_FILE);
+    });
+
+    test("should store definitions in sharded meta.json and keep them on rewrite", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({ collection: "items", data: [{ sku: "b" }, { sku: "a" }] });
+            await tx.ensureIndex({ collection: "items", field: "sku", type: "ordered", sparse: true });
+        });
+
+        const meta = JSON.parse(fs.readFileSync(path.join(TEST_DB_FOLDER, "items", "meta.json"), "utf-8"));
+        expect(meta.__indexes.sku).toMatchObject({ fields: ["sku"], type: "ordered", sparse: true });
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            await tx.rewriteCollection({ collection: "items", sort: { sku: 1 } });
+            expect(await tx.listIndexes({ collection: "items" })).toMatchObject([{ name: "sku", type: "ordered", sparse: true }]);
+            expect(await tx.find({ collection: "items", filter: { sku: "a" }, explain: true })).toMatchObject({ plan: { strategy: "indexLookup" } });
+            expect(await tx.find({ collection: "items", filter: { sku: "a" } })).toEqual({ _id: 1, sku: "a" });
+        });
+    });
+});
+
+describe("Query Planner", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should intersect indexed fields and explain the plan", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "users",
+                data: [
+                    { role: "dev", age: 25, city: "Lima" },
+                    { role: "dev", age: 35, city: "Quito" },
+                    { role: "admin", age: 35, city: "Lima" },
+                    { role: "dev", age: 45, city: "Lima" },
+                ],
+            });
+            await tx.ensureIndex({ collection: "users", field: "role" });
+            await tx.ensureIndex({ collection: "users", field: "age", type: "ordered" });
+        });
+
+        await db.transaction(async (tx: Transaction) => {
+            const filter = { role: "dev", $and: [{ age: { $gte: 30 } }], city: "Lima" };
+            const found = await tx.findMany({ collection: "users", filter });
+            expect(found.map((d: any) => d._id)).toEqual([4]);
+
+            const report = await tx.findMany({ collection: "users", filter, explain: true });
+            expect(report.plan).toEqual({ strategy: "indexLookup", indexes: ["role", "age"], candidates: 2 });
+            expect(report.documentsScanned).toBe(2);
+            expect(report.documentsReturned).toBe(1);
+            expect(report.executionTimeMs).toBeGreaterThanOrEqual(0);
+
+            const scan = await tx.find({ collection: "users", filter: { city: "Quito" }, explain: true });
+            expect(scan.plan.strategy).toBe("idOrderScan");
+            expect(scan.documentsScanned).toBe(2);
+            expect(scan.documentsReturned).toBe(1);
+
+            expect(await tx.count({ collection: "users", filter: { role: { $in: ["admin", "dev"] }, age: 35 } })).toBe(2);
+            expect(await tx.exists({ collection: "users", filter: { role: "admin", age: { $gt: 40 } } })).toBe(false);
+        });
+    });
+
+    test("should check hash index matches of values that stringify alike", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "items", field: "code" });
+            await tx.createMany({ collection: "items", data: [{ code: 1 }, { code: "1" }, { code: true }] });
+        });
+        await db.transaction(async (tx: Transaction) => {
+            expect(await tx.count({ collection: "items", filter: { code: 1 } })).toBe(1);
+            expect(await tx.count({ collection: "items", filter: { code: { $in: ["1", "true"] } } })).toBe(1);
+            expect(await tx.exists({ collection: "items", filter: { code: "true" } })).toBe(false);
+            const found = await tx.findMany({ collection: "items", filter: { code: 1 } });
+            expect(found.map((d: any) => d._id)).toEqual([1]);
+        });
+    });
+
+    test("should check operators nested in $and after an index lookup", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "items", field: "age", type: "ordered" });
+            await tx.createMany({ collection: "items", data: [{ age: 6, a: 1 }, { age: 7, a: 2 }, { age: 8, a: 3 }] });
+        });
+        await db.transaction(async (tx: Transaction) => {
+            const either = { $and: [{ age: { $gt: 5 } }, { $or: [{ a: 1 }, { a: 3 }] }] };
+            expect(await tx.count({ collection: "items", filter: either })).toBe(2);
+            const found = await tx.findMany({ collection: "items", filter: either });
+            expect(found.map((d: any) => d.a)).toEqual([1, 3]);
+
+            const none = { $and: [{ age: { $gt: 5 } }, { $nor: [{ age: { $gt: 0 } }] }] };
+            expect(await tx.exists({ collection: "items", filter: none })).toBe(false);
+            expect(await tx.findMany({ collection: "items", filter: none })).toEqual([]);
+        });
+    });
+
+    test("should respect partition hints and report shards loaded", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "users", field: "role" });
+            await tx.create({ collection: "users", index: "A", data: { name: "Ana", role: "dev" } });
+            await tx.create({ collection: "users", index: "B", data: { name: "Ben", role: "dev" } });
+            await tx.create({ collection: "users", index: "C", data: { name: "Cam", role: "ops" } });
+        });
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            const report = await tx.findMany({ collection: "users", index: "B", filter: { role: "dev" }, explain: true });
+            expect(report.plan).toEqual({ strategy: "indexLookup", indexes: ["role"], partition: "B", candidates: 1 });
+            expect(report.shardsLoaded).toBe(1);
+
+            const sorted = await tx.findMany({ collection: "users", sort: { name: -1 }, explain: true });
+            expect(sorted.plan.strategy).toBe("collectionScan");
+            expect(sorted.shardsLoaded).toBe(2);
+            expect(sorted.documentsReturned).toBe(3);
+
+            const found = await tx.find({ collection: "users", index: "B", filter: { role: "dev" } });
+            expect(found.name).toBe("Ben");
+        });
+    });
+});
+
+describe("Text Search", () => {
+    beforeEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        if (fs.existsSync(TEST_DB_FILE)) fs.unlinkSync(TEST_DB_FILE);
+        if (fs.existsSync(TEST_DB_FOLDER)) fs.rmSync(TEST_DB_FOLDER, { recursive: true, force: true });
+    });
+
+    test("should search, stem and rank by relevance", async () => {
+        const db = new SencilloDB({ file: TEST_DB_FILE });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.createMany({
+                collection: "posts",
+                data: [
+                    { title: "Running a database", tags: ["Databases"] },
+                    { title: "The runner runs and runs" },
+                    { title: "Cooking for the winter" },
+                ],
+            });
+            await tx.ensureIndex({ collection: "posts", field: "title", type: "text", stemming: true, stopWords: true });
+        });
+
+        const content = JSON.parse(fs.readFileSync(TEST_DB_FILE, "utf-8"));
+        expect(content.posts.__text_indexes.title.terms.run).toEqual({ 1: 1, 2: 2 });
+        expect(content.posts.__text_indexes.title.terms.the).toBeUndefined();
+
+        await db.transaction(async (tx: Transaction) => {
+            const ids = (docs: any[]) => docs.map((d: any) => d._id);
+            const ranked = await tx.findMany({
+                collection: "posts",
+                filter: { $text: { $search: "run" } },
+                sort: { score: { $meta: "textScore" } },
+            });
+            expect(ids(ranked)).toEqual([2, 1]);
+            expect(ids(await tx.findMany({ collection: "posts", filter: { $text: { $search: "cook* runner" } } }))).toEqual([2, 3]);
+            expect(await tx.count({ collection: "posts", filter: { $text: { $search: "winter database" } } })).toBe(2);
+            expect(await tx.exists({ collection: "posts", filter: { $text: { $search: "the" } } })).toBe(false);
+
+            const report = await tx.findMany({ collection: "posts", filter: { $text: { $search: "run" } }, explain: true });
+            expect(report.plan).toEqual({ strategy: "indexLookup", indexes: ["$text"], candidates: 2 });
+
+            await expect(tx.findMany({ collection: "posts", filter: { $text: { $search: "run" }, $or: [{ $text: { $search: "x" } }] } }))
+                .rejects.toBeInstanceOf(ValidationError);
+            await expect(tx.findMany({ collection: "posts", filter: { $text: { $search: "x", $field: "tags" } } }))
+                .rejects.toBeInstanceOf(ValidationError);
+        });
+    });
+
+    test("should keep the text index current through writes", async () => {
+        const db = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db.transaction(async (tx: Transaction) => {
+            await tx.ensureIndex({ collection: "notes", field: "body", type: "text" });
+            await tx.create({ collection: "notes", index: "A", data: { body: "Alpha beta" } });
+            await tx.create({ collection: "notes", index: "B", data: { body: "Beta gamma" } });
+            await tx.update({ collection: "notes", index: "A", _id: 1, data: { body: "Delta" } });
+        });
+
+        const db2 = new SencilloDB({ folder: TEST_DB_FOLDER, sharding: true });
+        await db2.transaction(async (tx: Transaction) => {
+            const search = async (text: string) =>
+                (await tx.findMany({ collection: "notes", filter: { $text: { $search: text } } })).map((d: any) => d._id);
+            expect(await search("beta")).toEqual([2]);
+            expect(await search("delta")).toEqual([1]);
+
+            await tx.destroy({ collection: "notes", index: "B", _id: 2 });
+            expect(await search("beta gamma")).toEqual([]);
+
+            await tx.dropIndex({ collection: "notes", index: "A" });
+            expect(await search("delta")).toEqual([]);
+        });
+
+        const meta = JSON.parse(fs.readFileSync(path.join(TEST_DB_FOLDER, "notes", "meta.json"), "utf-8"));
+        expect(meta.__text_indexes.body).toMatchObject({ terms: {}, lengths: {} });
     });
 });
 